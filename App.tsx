@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import ApiKeyModal from './components/ApiKeyModal';
 import GameInterface from './components/GameInterface';
-import { STORAGE_KEY_API } from './constants';
+import { STORAGE_KEY_API, STORAGE_KEY_LANGUAGE } from './constants';
 import { decryptKey } from './utils/parser';
+import { NarratorConfig } from './services/narratorProvider';
+import { Language } from './types';
+import { isLanguage } from './utils/i18n';
 
 const App: React.FC = () => {
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [narratorConfig, setNarratorConfig] = useState<NarratorConfig | null>(null);
   const [savedKey, setSavedKey] = useState<string>('');
   const [isChecking, setIsChecking] = useState(true);
+  const [language, setLanguage] = useState<Language>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY_LANGUAGE);
+    return isLanguage(stored) ? stored : 'ko';
+  });
 
   useEffect(() => {
     // Check local storage on mount
@@ -16,15 +23,20 @@ const App: React.FC = () => {
       const decrypted = decryptKey(stored);
       if (decrypted) {
         setSavedKey(decrypted);
-        // We do NOT setApiKey here automatically anymore.
+        // We do NOT setNarratorConfig here automatically anymore.
         // This ensures the ApiKeyModal is always the first screen.
       }
     }
     setIsChecking(false);
   }, []);
 
-  const handleKeySet = (key: string) => {
-    setApiKey(key);
+  const handleConnect = (config: NarratorConfig) => {
+    setNarratorConfig(config);
+  };
+
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    localStorage.setItem(STORAGE_KEY_LANGUAGE, next);
   };
 
   if (isChecking) {
@@ -33,10 +45,10 @@ const App: React.FC = () => {
 
   return (
     <div className="h-screen w-full bg-black text-white">
-      {!apiKey ? (
-        <ApiKeyModal onKeySet={handleKeySet} savedKey={savedKey} />
+      {!narratorConfig ? (
+        <ApiKeyModal onConnect={handleConnect} savedKey={savedKey} language={language} onLanguageChange={handleLanguageChange} />
       ) : (
-        <GameInterface apiKey={apiKey} />
+        <GameInterface narratorConfig={narratorConfig} language={language} onLanguageChange={handleLanguageChange} />
       )}
     </div>
   );
@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { GeminiService } from '../services/geminiService';
+import { createNarrator, NarratorConfig } from '../services/narratorProvider';
 import { encryptKey } from '../utils/parser';
 import { STORAGE_KEY_API } from '../constants';
+import { Language } from '../types';
+import { LANGUAGES, createTranslator } from '../utils/i18n';
 
 interface ApiKeyModalProps {
-  onKeySet: (key: string) => void;
+  onConnect: (config: NarratorConfig) => void;
   savedKey?: string;
+  language: Language;
+  onLanguageChange: (language: Language) => void;
 }
 
-const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
+const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onConnect, savedKey, language, onLanguageChange }) => {
+  const t = createTranslator(language);
   const [inputKey, setInputKey] = useState(savedKey || '');
   const [status, setStatus] = useState<'idle' | 'testing' | 'error' | 'success'>('idle');
   const [errorMsg, setErrorMsg] = useState('');
+  const [useJsonProtocol, setUseJsonProtocol] = useState(false);
 
   useEffect(() => {
     if (savedKey) {
@@ -23,7 +29,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
     const cleanKey = inputKey.trim();
     
     if (!cleanKey) {
-        setErrorMsg("API Key cannot be empty.");
+        setErrorMsg(t('apiKey.empty'));
         setStatus('error');
         return;
     }
@@ -32,7 +38,9 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
     setErrorMsg(''); 
 
     try {
-      const service = new GeminiService(cleanKey);
+      // The GM narrates in the UI language unless changed before a run starts
+      const config: NarratorConfig = { provider: 'gemini', apiKey: cleanKey, protocol: useJsonProtocol ? 'json' : 'markdown', language };
+      const service = createNarrator(config);
       // validateConnection will now throw if the API call fails
       const isValid = await service.validateConnection();
 
@@ -44,45 +52,65 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
         
         // Small delay for user to see success
         setTimeout(() => {
-            onKeySet(cleanKey);
+            onConnect(config);
         }, 800);
       } else {
         setStatus('error');
-        setErrorMsg("Connection verified but returned empty response.");
+        setErrorMsg(t('apiKey.emptyResponse'));
       }
     } catch (e: any) {
       setStatus('error');
       // Display the actual error message from the SDK (e.g., "Invalid API Key", "Quota exceeded")
       // We strip the "GoogleGenAIError:" prefix if present for cleaner UI
-      const msg = e.message || "Error connecting to Gemini API.";
+      const msg = e.message || t('apiKey.connectError');
       setErrorMsg(msg.replace('GoogleGenAIError:', '').trim());
     }
   };
 
+  // Scripted offline GM for UI development (no API key, no quota)
+  const handleOfflineMode = () => {
+    onConnect({ provider: 'mock', apiKey: '', language });
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-95 flex items-center justify-center z-50 p-4">
       <div className="bg-gray-900 border border-green-900 shadow-[0_0_20px_rgba(0,255,0,0.1)] rounded-sm p-6 max-w-md w-full relative overflow-hidden">
         {/* Decorative Scanline */}
         <div className="absolute top-0 left-0 w-full h-1 bg-green-600 opacity-50"></div>
         
-        <h2 className="text-xl font-mono text-green-500 mb-4 tracking-wider glitch-text">
-          SYSTEM ACCESS REQUIRED
-        </h2>
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-xl font-mono text-green-500 tracking-wider glitch-text">
+            {t('apiKey.title')}
+          </h2>
+          <div className="flex gap-1" title={t('apiKey.language')}>
+            {LANGUAGES.map(lang => (
+              <button
+                key={lang.id}
+                onClick={() => onLanguageChange(lang.id)}
+                className={`px-1.5 py-0.5 text-[10px] font-mono border transition-colors ${
+                  language === lang.id ? 'border-green-600 text-green-400' : 'border-gray-800 text-gray-600 hover:text-green-400'
+                }`}
+              >
+                {lang.id.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
         
         <p className="text-gray-400 text-sm mb-6 font-sans">
-          To initialize <span className="text-red-500 font-bold">PROJECT: SEOUL FALLOUT</span>, a valid Gemini API key is required. The key will be encrypted and stored locally on your terminal.
+          {t('apiKey.introBefore')}<span className="text-red-500 font-bold">PROJECT: SEOUL FALLOUT</span>{t('apiKey.introAfter')}
         </p>
 
         <div className="mb-4">
           <div className="flex justify-between items-end mb-1">
-            <label className="block text-xs text-green-700 font-mono uppercase">Enter API Key</label>
+            <label className="block text-xs text-green-700 font-mono uppercase">{t('apiKey.label')}</label>
             <a 
                 href="https://aistudio.google.com/app/apikey" 
                 target="_blank" 
                 rel="noreferrer"
                 className="text-[10px] text-gray-500 hover:text-green-400 underline font-sans transition-colors cursor-pointer"
             >
-                API Key 발급받기 (무료)
+                {t('apiKey.getKey')}
             </a>
           </div>
           <input 
@@ -94,6 +122,16 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
           />
         </div>
 
+        <label className="mb-4 flex items-center gap-2 text-[10px] text-gray-500 font-mono cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={useJsonProtocol}
+            onChange={(e) => setUseJsonProtocol(e.target.checked)}
+            className="accent-green-600"
+          />
+          {t('apiKey.jsonProtocol')}
+        </label>
+
         {status === 'error' && (
           <div className="mb-4 text-red-500 text-xs font-mono border-l-2 border-red-500 pl-2 break-all">
             [ERROR] {errorMsg}
@@ -102,11 +140,18 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
 
         {status === 'success' && (
           <div className="mb-4 text-green-400 text-xs font-mono border-l-2 border-green-500 pl-2">
-            [SUCCESS] Connection Established. Decrypting protocol...
+            {t('apiKey.success')}
           </div>
         )}
 
-        <div className="flex justify-end">
+        <div className="flex justify-between items-center">
+            <button
+                onClick={handleOfflineMode}
+                disabled={status === 'testing' || status === 'success'}
+                className="text-[10px] text-gray-600 hover:text-green-400 underline font-mono transition-colors disabled:opacity-30"
+            >
+                {t('apiKey.offline')}
+            </button>
             <button
                 onClick={handleTestAndSave}
                 disabled={status === 'testing' || status === 'success'}
@@ -116,7 +161,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySet, savedKey }) => {
                     : 'bg-green-900 text-green-100 hover:bg-green-700 hover:shadow-[0_0_10px_rgba(0,255,0,0.3)]'
                 }`}
             >
-                {status === 'testing' ? 'VERIFYING...' : (savedKey ? 'RE-CONNECT' : 'INITIALIZE')}
+                {status === 'testing' ? t('apiKey.verifying') : (savedKey ? t('apiKey.reconnect') : t('apiKey.initialize'))}
             </button>
         </div>
       </div>
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { CodexEntry, CodexKind, Disposition } from '../types';
+import { TranslationKey, Translator } from '../utils/i18n';
+
+interface CodexPanelProps {
+  entries: CodexEntry[];
+  isRetro: boolean;
+  t: Translator;
+}
+
+const DISPOSITION_COLORS: Record<Disposition, string> = {
+  hostile: 'text-red-500 border-red-900',
+  wary: 'text-orange-400 border-orange-900',
+  neutral: 'text-gray-400 border-gray-700',
+  friendly: 'text-green-400 border-green-900',
+  ally: 'text-blue-400 border-blue-900',
+  unknown: 'text-gray-600 border-gray-800',
+};
+
+// Sidebar tab listing the NPCs and factions the GM has reported this run
+const CodexPanel: React.FC<CodexPanelProps> = ({ entries, isRetro, t }) => {
+  const [filter, setFilter] = useState<CodexKind | 'all'>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const visible = entries.filter(e => filter === 'all' || e.kind === filter);
+  const filterClass = (active: boolean) => `px-2 py-0.5 text-[10px] border uppercase ${
+    active
+      ? (isRetro ? 'border-[#ffb000] text-[#ffb000]' : 'border-green-600 text-green-400')
+      : 'border-transparent opacity-50 hover:opacity-100'
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1">
+        {(['all', 'npc', 'faction'] as const).map(kind => (
+          <button key={kind} onClick={() => setFilter(kind)} className={filterClass(filter === kind)}>
+            {t(`codex.filter.${kind}` as TranslationKey)}
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 && (
+        <div className="text-xs italic opacity-40">{t('codex.empty')}</div>
+      )}
+
+      {visible.map(entry => {
+        const key = `${entry.kind}:${entry.name}`;
+        const isOpen = expanded === key;
+        return (
+          <div key={key} className={`border-l-2 pl-2 text-xs ${isRetro ? 'border-[#553b00]' : 'border-gray-800'}`}>
+            <button onClick={() => setExpanded(isOpen ? null : key)} className="w-full text-left">
+              <div className="flex justify-between items-baseline gap-2">
+                <span className="font-bold truncate">
+                  <span className="opacity-50 text-[9px] mr-1">{entry.kind === 'npc' ? 'NPC' : t('codex.faction')}</span>
+                  {entry.name}
+                </span>
+                <span className={`shrink-0 text-[9px] border px-1 ${isRetro ? 'border-[#553b00]' : DISPOSITION_COLORS[entry.disposition]}`}>
+                  {entry.dispositionText || t(`codex.disposition.${entry.disposition}` as TranslationKey)}
+                </span>
+              </div>
+              {entry.faction && <div className="text-[10px] opacity-60">{entry.faction}</div>}
+            </button>
+            {isOpen && (
+              <div className="mt-1 space-y-1 text-[10px] opacity-80">
+                {entry.lastSeen && <div>{t('codex.lastSeen', { place: entry.lastSeen, turn: entry.lastTurn })}</div>}
+                {entry.facts.length > 0 && (
+                  <ul className="list-disc list-inside space-y-0.5">
+                    {entry.facts.map(fact => <li key={fact}>{fact}</li>)}
+                  </ul>
+                )}
+                <div className="opacity-50">{t('codex.firstMet', { turn: entry.firstTurn })}</div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CodexPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  danger?: boolean;
+  isRetro: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel = 'CONFIRM', danger = false, isRetro, onConfirm, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-black/80" onClick={onCancel}>
+      <div
+        className={`max-w-sm w-full p-5 border shadow-2xl font-mono ${isRetro ? 'bg-[#1a1000] border-[#ffb000] text-[#ffb000]' : 'bg-gray-900 border-gray-600 text-gray-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <h4 className={`text-sm font-bold mb-2 ${danger && !isRetro ? 'text-red-500' : ''}`}>{title}</h4>
+        <p className="text-xs opacity-80 mb-5 whitespace-pre-wrap">{message}</p>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 text-xs font-bold border border-gray-700 text-gray-400 hover:border-gray-500 uppercase"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className={`flex-1 py-2 text-xs font-bold border uppercase transition-colors ${
+              danger
+                ? 'border-red-700 text-red-500 hover:bg-red-900 hover:text-white'
+                : (isRetro ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' : 'border-green-600 text-green-500 hover:bg-green-600 hover:text-black')
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { Recipe, RecipeAvailability } from '../types';
+import { Translator } from '../utils/i18n';
+import { describeIngredients } from '../utils/recipes';
+import ConfirmDialog from './ConfirmDialog';
+
+interface CraftingPanelProps {
+  book: RecipeAvailability[];
+  importedCount: number;
+  disabled: boolean; // a turn is in flight
+  isRetro: boolean;
+  t: Translator;
+  onCraft: (recipe: Recipe) => void;
+  onImport: (file: File) => void;
+  onClearImported: () => void;
+}
+
+// Sidebar tab: recipe book checked against the current [장비] and [태그], craftable recipes first
+const CraftingPanel: React.FC<CraftingPanelProps> = ({ book, importedCount, disabled, isRetro, t, onCraft, onImport, onClearImported }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sorted = [...book].sort((a, b) => Number(b.craftable) - Number(a.craftable));
+  const accent = isRetro ? 'text-[#ffb000] border-[#ffb000]' : 'text-green-400 border-green-700';
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {sorted.map(({ recipe, missingItems, missingTags, craftable }) => {
+          const consumed = describeIngredients(recipe, true);
+          const tools = describeIngredients(recipe, false);
+          return (
+            <li key={recipe.id} className={`border-l-2 pl-2 text-xs ${isRetro ? 'border-[#553b00]' : 'border-gray-800'} ${craftable ? '' : 'opacity-50'}`}>
+              <div className="flex justify-between items-center gap-2">
+                <button onClick={() => setExpanded(expanded === recipe.id ? null : recipe.id)} className="flex-1 text-left font-bold truncate">
+                  {recipe.name}
+                  {recipe.output.quantity > 1 && <span className="opacity-60 font-normal"> x{recipe.output.quantity}</span>}
+                </button>
+                <button
+                  onClick={() => onCraft(recipe)}
+                  disabled={!craftable || disabled}
+                  className={`shrink-0 px-2 py-0.5 border text-[10px] uppercase disabled:opacity-30 disabled:cursor-not-allowed ${accent}`}
+                >
+                  {t('craft.button')}
+                </button>
+              </div>
+              {recipe.requiredTags.length > 0 && (
+                <div className="text-[10px] opacity-70">{recipe.requiredTags.join(' ')}</div>
+              )}
+              {!craftable && (
+                <div className="text-[10px] text-red-400">
+                  {t('craft.missing', { items: [...missingTags, ...missingItems].join(', ') })}
+                </div>
+              )}
+              {expanded === recipe.id && (
+                <div className="mt-1 space-y-0.5 text-[10px] opacity-80">
+                  {recipe.description && <div className="italic">{recipe.description}</div>}
+                  {consumed && <div>{t('craft.consumes', { items: consumed })}</div>}
+                  {tools && <div>{t('craft.tools', { items: tools })}</div>}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Recipe mods */}
+      <div className={`pt-2 border-t flex justify-between items-center text-[10px] font-mono ${isRetro ? 'border-[#332200]' : 'border-gray-800'}`}>
+        <span className="opacity-50">{t('craft.imported', { count: importedCount })}</span>
+        <div className="flex gap-2">
+          {importedCount > 0 && (
+            <button onClick={() => setConfirmClear(true)} className="opacity-60 hover:opacity-100 underline">
+              {t('craft.clear')}
+            </button>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} className="opacity-60 hover:opacity-100 underline">
+            {t('craft.import')}
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {confirmClear && (
+        <ConfirmDialog
+          title={t('craft.clearTitle')}
+          message={t('craft.clearMessage', { count: importedCount })}
+          confirmLabel={t('craft.clear')}
+          danger
+          isRetro={isRetro}
+          onConfirm={() => { setConfirmClear(false); onClearImported(); }}
+          onCancel={() => setConfirmClear(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CraftingPanel;
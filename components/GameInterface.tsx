@@ -1,56 +1,122 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GeminiService } from '../services/geminiService';
-import { GameState, Message, SaveFile } from '../types';
-import { parseGameResponse, parseHudToState } from '../utils/parser';
-import { STORAGE_KEY_SETTINGS, STORAGE_KEY_LEGACY, STORAGE_KEY_SAVES } from '../constants';
+import { createNarrator, NarratorConfig, NarratorProvider } from '../services/narratorProvider';
+import { GameState, GamePhase, Message, SaveFile, SaveExport, StatValues, RunEndInfo, RunRecord, ResponseCandidate, CampaignMemory, PromptPack, Language, JobDefinition, CheckResult, InventoryItem, LocationVisit, Recipe } from '../types';
+import { LANGUAGES, TranslationKey, Translator, createTranslator, localizeTag, lookupTagDescription } from '../utils/i18n';
+import { BUILTIN_JOBS, isBuiltinJob } from '../utils/jobs';
+import { createDiceSeed, formatModifier, resolveCheck, withCheckText } from '../utils/dice';
+import { createRunSeed, generateRunSetup, normalizeSeedCode } from '../utils/runSeed';
+import { parseInventory, reconcileInventory } from '../utils/inventory';
+import { formatLocationForPrompt, isKnownLocation, recordVisit } from '../utils/locations';
+import { buildCodex, extractCodexUpdates, formatCodexBlock } from '../utils/codex';
+import { buildJournal, extractQuestUpdates, getCompletedObjectives, isLegacyEligible, formatJournalBlock } from '../utils/quests';
+import { BUILTIN_RECIPES, checkRecipe, describeIngredients, getCraftSkill, mergeRecipes, parseRecipeImport } from '../utils/recipes';
+import { advanceStatusEffects, extractStatusUpdates, findStatusEffect, getStatusTimeline } from '../utils/statusEffects';
+import { BUILTIN_PROMPT_PACKS, DEFAULT_PROMPT_PACK, isSamePack, parsePromptPack, resolvePromptPack, toPackRef } from '../utils/promptPacks';
+import { parseGameResponse, parseHudToState, getStreamingNarrative, deriveNumericState, detectRunEnd } from '../utils/parser';
+import StatGauge, { DeltaIndicator } from './StatGauge';
+import GameOverScreen from './GameOverScreen';
+import RunArchiveScreen from './RunArchiveScreen';
+import { createRunRecord } from '../utils/runArchive';
+import { createRepository, migrateLocalStorage, isQuotaError, GameRepository } from '../services/gameRepository';
+import { SAVE_FILE_VERSION, createSaveId, migrateSaveFile, migrateSaveList, createSlotExport, createBundleExport, parseSaveExport, downloadJson } from '../utils/saveFormat';
+import SaveManager from './SaveManager';
+import ConfirmDialog from './ConfirmDialog';
+import JobEditor from './JobEditor';
+import SeoulMap from './SeoulMap';
+import CodexPanel from './CodexPanel';
+import QuestJournal from './QuestJournal';
+import StatusEffectList from './StatusEffectList';
+import CraftingPanel from './CraftingPanel';
+import { decodeStructuredTurn, structuredTurnToMarkdown, describeValidationReport, getStreamingStructuredNarrative } from '../utils/turnProtocol';
+import { buildContextHistory, describeMemory, estimateHistoryTokens, estimateTokens, getCompressionCutoff, parseSummaryOutput, shouldCompress } from '../utils/memory';
 
 interface GameInterfaceProps {
-  apiKey: string;
+  narratorConfig: NarratorConfig;
+  language: Language; // UI language; the GM language is chosen separately before a run
+  onLanguageChange: (language: Language) => void;
+  repository?: GameRepository; // defaults to IndexedDB, or memory when the browser has none
 }
 
 interface VisualSettings {
   fontStyle: 'style-digital' | 'style-clean' | 'style-retro';
   fontFamily: 'font-sans' | 'font-serif' | 'font-mono';
   fontSize: 'text-sm' | 'text-base' | 'text-lg' | 'text-xl';
+  // Gameplay
+  hardcore: boolean; // default for new runs: no rewind, death is permanent
 }
 
-type GamePhase = 'intro' | 'selection' | 'perk-selection' | 'job-selection' | 'prologue' | 'playing';
+const FONT_STYLES: VisualSettings['fontStyle'][] = ['style-digital', 'style-clean', 'style-retro'];
+const FONT_FAMILIES: VisualSettings['fontFamily'][] = ['font-sans', 'font-serif', 'font-mono'];
+const FONT_SIZES: VisualSettings['fontSize'][] = ['text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+// Keeps only known settings with valid values, so an imported backup can't inject anything else
+const pickSettings = (raw: Record<string, unknown>): Partial<VisualSettings> => {
+  const picked: Partial<VisualSettings> = {};
+  const fontStyle = FONT_STYLES.find(v => v === raw.fontStyle);
+  const fontFamily = FONT_FAMILIES.find(v => v === raw.fontFamily);
+  const fontSize = FONT_SIZES.find(v => v === raw.fontSize);
+  if (fontStyle) picked.fontStyle = fontStyle;
+  if (fontFamily) picked.fontFamily = fontFamily;
+  if (fontSize) picked.fontSize = fontSize;
+  if (typeof raw.hardcore === 'boolean') picked.hardcore = raw.hardcore;
+  return picked;
+};
+
+// Built-in classes keep their display text in the translation tables; custom ones are shown as written
+const localizeJob = (job: JobDefinition, translate: Translator): JobDefinition => isBuiltinJob(job)
+  ? { ...job, name: translate(`job.${job.id}.name` as TranslationKey), description: translate(`job.${job.id}.desc` as TranslationKey) }
+  : job;
 
-interface JobOption {
-  id: string;
-  name: string;
-  desc: string;
-  tags: string[];
+// Earlier candidates carried through a reroll, plus the HUD to diff the new one against
+interface RerollContext {
+  candidates: ResponseCandidate[];
+  baseState: Partial<GameState>;
 }
 
-const JOBS: JobOption[] = [
-  { id: 'Mercenary', name: '용병 (MERCENARY)', desc: '전투 전문가. 높은 체력과 무기 숙련도.', tags: ['[전투]', '[화기]'] },
-  { id: 'Technician', name: '기술자 (TECHNICIAN)', desc: '기계와 해킹의 마스터. 폐허 속 장비 제어.', tags: ['[공학]', '[해킹]'] },
-  { id: 'Doctor', name: '의사 (DOCTOR)', desc: '생존을 위한 의료 지식과 화학물질 제조.', tags: ['[의학]', '[화학]'] },
-  { id: 'Scavenger', name: '스캐빈저 (SCAVENGER)', desc: '은신과 탐색에 특화된 생존 전문가.', tags: ['[은신]', '[탐색]'] },
+// Sidebar stat rows (keys match StatValues parsed from the [스탯] HUD line)
+const STAT_ROWS: { key: keyof StatValues; labelKey: TranslationKey }[] = [
+  { key: 'physical', labelKey: 'stat.physical' },
+  { key: 'survival', labelKey: 'stat.survival' },
+  { key: 'charisma', labelKey: 'stat.charisma' },
 ];
+const STAT_PIPS = 5;
+
 
 // Prologue Text Lines
-const PROLOGUE_LINES = [
-    "2045년, 서울.",
-    "핵전쟁의 화염이 모든 것을 집어삼킨 지 20년...",
-    "질서는 무너졌고, 오직 생존만이 유일한 법이 되었다.",
-    "당신의 이야기가... 지금 시작된다."
-];
+const PROLOGUE_LINES: TranslationKey[] = ['prologue.line1', 'prologue.line2', 'prologue.line3', 'prologue.line4'];
 
-const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
+const GameInterface: React.FC<GameInterfaceProps> = ({ narratorConfig, language, onLanguageChange, repository: repositoryProp }) => {
+  const t = createTranslator(language);
   // Game Logic State
   const [phase, setPhase] = useState<GamePhase>('intro');
   const [unlockedPerks, setUnlockedPerks] = useState<string[]>([]);
   const [selectedPerk, setSelectedPerk] = useState<string | null>(null);
+  const [selectedJob, setSelectedJob] = useState<string | null>(null); // display name, as saved
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null); // definition id, so a restored run finds its class in any language
+  const [activeJob, setActiveJob] = useState<JobDefinition | null>(null); // full definition sent to the GM
+  const [runHardcore, setRunHardcore] = useState(false); // fixed when the run starts, so rewind can't be switched back on mid-run
+  const [customJobs, setCustomJobs] = useState<JobDefinition[]>([]);
+  const [customRecipes, setCustomRecipes] = useState<Recipe[]>([]); // imported recipe mods
+  const [isJobEditorOpen, setIsJobEditorOpen] = useState(false);
+  const [runPerks, setRunPerks] = useState<string[]>([]); // perks earned during the current run
+  const [runEnd, setRunEnd] = useState<RunEndInfo | null>(null);
+  const [runArchive, setRunArchive] = useState<RunRecord[]>([]);
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [gameState, setGameState] = useState<Partial<GameState>>({});
-  const [gemini, setGemini] = useState<GeminiService | null>(null);
+  const [prevGameState, setPrevGameState] = useState<Partial<GameState>>({}); // previous turn, for deltas
+  const [narrator, setNarrator] = useState<NarratorProvider | null>(null);
   const [flashMsg, setFlashMsg] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [diceState, setDiceState] = useState<number>(() => createDiceSeed()); // seeded RNG for skill checks
+  const [runSeed, setRunSeed] = useState<string | null>(null); // share code of the current run
+  const [seedInput, setSeedInput] = useState(''); // typed on the class screen; empty rolls a new seed
+  const [locations, setLocations] = useState<LocationVisit[]>([]); // places reached this run
+  const [isMapOpen, setIsMapOpen] = useState(true);
+  const [sidebarTab, setSidebarTab] = useState<'hud' | 'journal' | 'codex' | 'craft'>('hud');
   
   // Prologue State
   const [prologueStep, setPrologueStep] = useState(0);
@@ -58,63 +124,119 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
   // UI State
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [inspectedTag, setInspectedTag] = useState<{name: string, desc: string} | null>(null);
+  const [expandedItem, setExpandedItem] = useState<string | null>(null); // inventory row showing its actions
   const [visualSettings, setVisualSettings] = useState<VisualSettings>({
     fontStyle: 'style-digital',
     fontFamily: 'font-sans',
-    fontSize: 'text-lg'
+    fontSize: 'text-lg',
+    hardcore: false
   });
 
   // Save/Load System State
   const [isSystemMenuOpen, setIsSystemMenuOpen] = useState(false);
-  const [saveSlots, setSaveSlots] = useState<(SaveFile | null)[]>(new Array(5).fill(null));
+  const [saves, setSaves] = useState<SaveFile[]>([]);
+  const [repository] = useState<GameRepository>(() => repositoryProp ?? createRepository());
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [autosave, setAutosave] = useState<SaveFile | null>(null); // rolling crash-recovery slot
+  const [pendingImport, setPendingImport] = useState<{ imported: SaveExport; conflicts: SaveFile[] } | null>(null); // waiting on the overwrite confirm
+  const [memory, setMemory] = useState<CampaignMemory | null>(null); // rolling summary of older turns
+  const [isMemoryPanelOpen, setIsMemoryPanelOpen] = useState(false);
+  const [promptPacks, setPromptPacks] = useState<PromptPack[]>(BUILTIN_PROMPT_PACKS); // built-ins + imported
+  const [activePack, setActivePack] = useState<PromptPack>(DEFAULT_PROMPT_PACK);
+  const [gameLanguage, setGameLanguage] = useState<Language>(narratorConfig.language ?? language);
 
   const bottomRef = useRef<HTMLDivElement>(null);
-
-  // Load Settings, Legacy Perks, and Save Slots
+  const archivedRunRef = useRef<RunEndInfo | null>(null); // guards against archiving a run twice
+  const inputRef = useRef<HTMLInputElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const autosavePendingRef = useRef(false); // set by handleModelResponse, flushed once messages commit
+  const compressingRef = useRef(false);
+  const packFileRef = useRef<HTMLInputElement>(null);
+
+  // Load Settings, Legacy Perks, Save Slots and Run Archive (after the one-time localStorage migration)
   useEffect(() => {
-    // Settings
-    const savedSettings = localStorage.getItem(STORAGE_KEY_SETTINGS);
-    if (savedSettings) {
+    let cancelled = false;
+    const load = async () => {
         try {
-            const parsed = JSON.parse(savedSettings);
-            setVisualSettings(prev => ({ ...prev, ...parsed }));
+            await migrateLocalStorage(repository);
         } catch (e) {
-            console.error("Failed to load settings", e);
+            console.error("Failed to migrate localStorage data", e);
         }
-    }
 
-    // Perks
-    const savedPerks = localStorage.getItem(STORAGE_KEY_LEGACY);
-    if (savedPerks) {
         try {
-            const parsed = JSON.parse(savedPerks);
-            if (Array.isArray(parsed)) {
-                setUnlockedPerks(parsed);
+            const [storedSettings, storedPerks, storedSaves, storedRuns, storedAutosave, storedPacks, storedJobs, storedRecipes] = await Promise.all([
+                repository.getSettings(),
+                repository.getLegacyPerks(),
+                repository.getSaves(),
+                repository.getRuns(),
+                repository.getAutosave(),
+                repository.getPromptPacks(),
+                repository.getCustomJobs(),
+                repository.getCustomRecipes(),
+            ]);
+            if (cancelled) return;
+            if (storedSettings) {
+                setVisualSettings(prev => ({ ...prev, ...pickSettings(storedSettings) }));
             }
+            setUnlockedPerks(storedPerks);
+            // Older saves are upgraded through the migration chain
+            setSaves(migrateSaveList(storedSaves));
+            setRunArchive(storedRuns);
+            setAutosave(storedAutosave ? migrateSaveFile(storedAutosave) : null);
+            setPromptPacks([...BUILTIN_PROMPT_PACKS, ...storedPacks]);
+            setCustomJobs(storedJobs);
+            setCustomRecipes(storedRecipes);
         } catch (e) {
-            console.error("Failed to load legacy perks", e);
+            console.error("Failed to load stored data", e);
+            if (!cancelled) setStorageError(t('storage.loadFailed'));
         }
-    }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [repository]);
 
-    // Save Slots
-    const storedSaves = localStorage.getItem(STORAGE_KEY_SAVES);
-    if (storedSaves) {
-        try {
-            const parsed = JSON.parse(storedSaves);
-            if (Array.isArray(parsed)) {
-                setSaveSlots(parsed);
-            }
-        } catch (e) {
-            console.error("Failed to load save slots", e);
-        }
-    }
-  }, []);
+  // Archive the run once the game-over screen is reached (messages/gameState are final by then)
+  useEffect(() => {
+    if (phase !== 'game-over' || !runEnd || archivedRunRef.current === runEnd) return;
+    archivedRunRef.current = runEnd;
+
+    const record = createRunRecord({
+        runEnd,
+        job: selectedJob,
+        perk: selectedPerk,
+        seed: runSeed,
+        perksEarned: runPerks,
+        objectivesCompleted: getCompletedObjectives(buildJournal(messages)),
+        gameState,
+        messages,
+    });
+    setRunArchive(prev => [...prev, record]);
+    persist(repository.addRun(record));
+    clearAutosave(); // a finished run has nothing to recover
+  }, [phase, runEnd]);
+
+  // Rolling autosave after every completed GM turn
+  useEffect(() => {
+    if (!autosavePendingRef.current) return;
+    autosavePendingRef.current = false;
+    if (phase === 'game-over' || messages.length === 0) return;
+
+    const save = buildSaveFile('[AUTOSAVE]', 'autosave');
+    setAutosave(save);
+    persist(repository.putAutosave(save));
+  }, [messages]);
+
+  // Fold older turns into the rolling summary once the live history gets long
+  useEffect(() => {
+    if (phase !== 'playing' || isLoading || !shouldCompress(messages, memory)) return;
+    compressMemory();
+  }, [messages, isLoading]);
 
   // Initialize Service
   useEffect(() => {
-    const service = new GeminiService(apiKey);
-    setGemini(service);
-  }, [apiKey]);
+    const service = createSession();
+    setNarrator(service);
+  }, [narratorConfig]);
 
   // Prologue Animation Effect
   useEffect(() => {
@@ -136,7 +258,21 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
   const updateSettings = (newSettings: Partial<VisualSettings>) => {
       const updated = { ...visualSettings, ...newSettings };
       setVisualSettings(updated);
-      localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(updated));
+      persist(repository.putSettings({ ...updated }));
+  };
+
+  // Runs a storage write and surfaces failures (quota above all) instead of losing them silently
+  const persist = async (task: Promise<void>): Promise<boolean> => {
+      try {
+          await task;
+          return true;
+      } catch (e: unknown) {
+          console.error("Storage write failed", e);
+          setStorageError(isQuotaError(e)
+              ? t('storage.quota')
+              : t('storage.writeFailed', { message: (e instanceof Error && e.message) || t('common.unknownError') }));
+          return false;
+      }
   };
 
   // Scroll to bottom
@@ -151,7 +287,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
   const handleModeSelect = (legacy: boolean) => {
     if (legacy) {
         if (unlockedPerks.length === 0) {
-            setFlashMsg("획득한 특전이 없습니다. (No Legacy Data)");
+            setFlashMsg(t('flash.noPerks'));
             setTimeout(() => setFlashMsg(null), 2500);
             return;
         }
@@ -162,13 +298,101 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
     }
   };
 
+  // Fresh GM session with the given rules and narration language
+  const createSession = (pack: PromptPack = activePack, gmLanguage: Language = gameLanguage) =>
+    createNarrator({ ...narratorConfig, promptPack: pack, language: gmLanguage });
+
+  // Prompt packs are picked before a run starts; the GM session is rebuilt with the new rules
+  const handlePackSelect = (packKey: string) => {
+    const pack = promptPacks.find(p => `${p.id}@${p.version}` === packKey);
+    if (!pack) return;
+    setActivePack(pack);
+    setNarrator(createSession(pack));
+  };
+
+  const handleGameLanguageSelect = (gmLanguage: Language) => {
+    setGameLanguage(gmLanguage);
+    setNarrator(createSession(activePack, gmLanguage));
+  };
+
+  const handleImportPack = async (file: File) => {
+    try {
+        const pack = parsePromptPack(await file.text(), t);
+        if (BUILTIN_PROMPT_PACKS.some(p => p.id === pack.id)) {
+            throw new Error(t('flash.packReservedId'));
+        }
+        const imported = promptPacks
+            .filter(p => !BUILTIN_PROMPT_PACKS.includes(p) && !isSamePack(toPackRef(p), toPackRef(pack)));
+        if (!await persist(repository.putPromptPacks([...imported, pack]))) return;
+        setPromptPacks([...BUILTIN_PROMPT_PACKS, ...imported, pack]);
+        setActivePack(pack);
+        setNarrator(createSession(pack));
+        showFlash(t('flash.packLoaded', { name: pack.name, version: pack.version }));
+    } catch (e) {
+        showFlash(t('flash.packImportFailed', { message: e instanceof Error ? e.message : t('common.unknownError') }), 3000);
+    }
+  };
+
+  const handleCopySeed = async () => {
+      if (!runSeed) return;
+      try {
+          await navigator.clipboard.writeText(runSeed);
+          showFlash(t('flash.seedCopied', { seed: runSeed }));
+      } catch (e) {
+          showFlash(t('flash.seedCopyFailed', { seed: runSeed }), 3000);
+      }
+  };
+
   const handlePerkSelect = (perk: string) => {
       setSelectedPerk(perk);
       setPhase('job-selection');
   };
 
-  const handleJobSelect = async (jobName: string) => {
-      if (!gemini) return;
+  const handleSaveCustomJobs = async (jobs: JobDefinition[]): Promise<boolean> => {
+      if (!await persist(repository.putCustomJobs(jobs))) return false;
+      setCustomJobs(jobs);
+      return true;
+  };
+
+  // Recipe mods merge by id: a re-imported recipe replaces the old copy
+  const handleImportRecipes = async (file: File) => {
+      try {
+          const imported = parseRecipeImport(await file.text(), t);
+          const next = mergeRecipes(customRecipes, imported);
+          if (!await persist(repository.putCustomRecipes(next))) return;
+          setCustomRecipes(next);
+          showFlash(t('flash.recipesLoaded', { count: imported.length }));
+      } catch (e) {
+          showFlash(t('flash.recipesImportFailed', { message: e instanceof Error ? e.message : t('common.unknownError') }), 3000);
+      }
+  };
+
+  const handleClearRecipes = async () => {
+      if (!await persist(repository.putCustomRecipes([]))) return;
+      setCustomRecipes([]);
+  };
+
+  // Class the current run started with. Restored saves only carry its id (or, before ids were saved, its name), so look it up again.
+  const findRunJob = (): JobDefinition | null => {
+      if (activeJob) return activeJob;
+      const translate = createTranslator(gameLanguage);
+      const jobs = [...BUILTIN_JOBS, ...customJobs].map(job => localizeJob(job, translate));
+      if (selectedJobId) return jobs.find(job => job.id === selectedJobId) ?? null;
+      return selectedJob ? jobs.find(job => job.name === selectedJob) ?? null : null;
+  };
+
+  const handleJobSelect = async (definition: JobDefinition) => {
+      if (!narrator) return;
+      // The GM gets the class in its narration language
+      const job = localizeJob(definition, createTranslator(gameLanguage));
+      setSelectedJob(job.name);
+      setSelectedJobId(job.id);
+      setActiveJob(job);
+      setRunHardcore(visualSettings.hardcore);
+      // The seed fixes the opening and the run's dice
+      const { setup, rngState } = generateRunSetup(normalizeSeedCode(seedInput) || createRunSeed(), gameLanguage);
+      setRunSeed(setup.seed);
+      setDiceState(rngState);
       
       // Start Prologue instead of going straight to playing
       setPhase('prologue');
@@ -176,14 +400,14 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
       setIsLoading(true);
 
       try {
-          // Pass the selected job and the specific perk string
-          const response = await gemini.startGame(jobName, selectedPerk);
+          // Pass the full class definition and the specific perk string
+          const response = await narrator.startGame(job, selectedPerk, setup);
           
           // We process the response but wait for user to click "Start" in prologue
           handleModelResponse(response);
       } catch (e) {
           console.error(e);
-          setMessages(prev => [...prev, { role: 'system', content: '[ERROR] SYSTEM FAILURE during initialization.' }]);
+          setMessages(prev => [...prev, { role: 'system', content: t('system.initFailed') }]);
       } finally {
           setIsLoading(false);
       }
@@ -194,13 +418,13 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
     const basicInfo = getTagDescription(tagRaw); 
     setInspectedTag({
         name: basicInfo.name,
-        desc: "데이터베이스 암호 해독 중... [ACCESSING GM NODE]"
+        desc: t('tag.decoding')
     });
 
-    if (!gemini) return;
+    if (!narrator) return;
 
     try {
-        const explanation = await gemini.getTagExplanation(basicInfo.name);
+        const explanation = await narrator.getTagExplanation(basicInfo.name);
         if (explanation) {
              setInspectedTag(prev => prev ? { ...prev, desc: explanation } : null);
         }
@@ -210,110 +434,684 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
     }
   };
 
-  const handleModelResponse = (text: string) => {
+  // `turn` says which player action this answers (0 = opening); its text explains inventory changes the player asked for
+  const handleModelResponse = (rawText: string, reroll?: RerollContext, turn: { action: string; count: number; history: Message[] } = { action: '', count: 0, history: [] }) => {
+    // JSON protocol: normalize the structured turn into the markdown format.
+    // Anything that isn't JSON falls through to the markdown parser unchanged.
+    let text = rawText;
+    let protocolIssues: string[] | undefined;
+    if (narratorConfig.protocol === 'json') {
+        const decoded = decodeStructuredTurn(rawText);
+        if (decoded) {
+            text = structuredTurnToMarkdown(decoded.turn);
+            if (!decoded.report.valid) {
+                protocolIssues = describeValidationReport(decoded.report);
+                console.warn("Structured turn validation failed:", decoded.report);
+            }
+        } else {
+            protocolIssues = ['not JSON: markdown fallback'];
+        }
+    }
+
     // Check for System Reset signal from AI
     if (text.includes('[SYSTEM_RESET]')) {
+        resetRun();
         setPhase('selection');
-        setMessages([]);
-        setGameState({});
-        setSelectedPerk(null);
-        // Force new session to clear context
-        const newService = new GeminiService(apiKey);
-        setGemini(newService);
         return;
     }
 
+    const parsed = parseGameResponse(text);
+    const baseState = reroll ? reroll.baseState : gameState;
+    const newState = parsed.hudRaw ? parseHudToState(parsed.hudRaw, activePack.hudLabels) : baseState;
+    // NPC / faction markers become codex updates and are dropped from the shown narrative
+    const extracted = extractCodexUpdates(parsed.narrative, isKnownLocation(newState.location) ? newState.location.trim() : null, turn.count);
+    const codexUpdates = extracted.updates.length > 0 ? extracted.updates : undefined;
+    const quests = extractQuestUpdates(extracted.text, turn.count);
+    const questUpdates = quests.updates.length > 0 ? quests.updates : undefined;
+    // Status effects are tracked turn to turn from the previous GM turn's snapshot, not just read off [태그]
+    const statuses = extractStatusUpdates(quests.text);
+    const statusEffects = advanceStatusEffects(getStatusTimeline(turn.history).current, newState.tags || [], statuses.updates, turn.count);
+    const inventoryFlags = reconcileInventory(
+        parseInventory(baseState.equipment),
+        parseInventory(newState.equipment),
+        `${turn.action}\n${parsed.narrative}`
+    ) ?? undefined;
+    const modelMsg: Message = { role: 'model', content: statuses.text, choices: parsed.choices, protocolIssues, inventoryFlags, codexUpdates, questUpdates, statusEffects };
+    if (reroll) {
+        // Keep earlier candidates so the player can page back to them
+        const candidate: ResponseCandidate = { content: modelMsg.content, choices: modelMsg.choices, protocolIssues, hudState: newState, inventoryFlags, codexUpdates, questUpdates, statusEffects };
+        modelMsg.alternatives = [...reroll.candidates, candidate];
+        modelMsg.alternativeIndex = modelMsg.alternatives.length - 1;
+    }
+    setMessages(prev => [...prev, modelMsg]);
+    // A reroll replaces this turn's arrival, so forget where the discarded candidate went
+    setLocations(prev => recordVisit(reroll ? prev.filter(v => v.turn < turn.count) : prev, newState.location, turn.count));
+    autosavePendingRef.current = true;
+    setPrevGameState(baseState);
+    setGameState(newState);
+
+    const ending = detectRunEnd(parsed.narrative);
+
     // Check for Perk Acquisition: [PERK_ACQUIRED: Perk Name]
     const perkRegex = /\[PERK_ACQUIRED:\s*(.*?)\]/;
     const perkMatch = text.match(perkRegex);
-    if (perkMatch) {
+    // A perk handed out on death only counts if the run completed an objective
+    if (perkMatch && isLegacyEligible(ending?.outcome === 'death', buildJournal([...turn.history, modelMsg]))) {
         const newPerk = perkMatch[1].trim();
         if (newPerk && !unlockedPerks.includes(newPerk)) {
             const updatedPerks = [...unlockedPerks, newPerk];
             setUnlockedPerks(updatedPerks);
-            localStorage.setItem(STORAGE_KEY_LEGACY, JSON.stringify(updatedPerks));
-            setFlashMsg(`[SYSTEM] NEW LEGACY ACQUIRED: ${newPerk}`);
+            persist(repository.putLegacyPerks(updatedPerks));
+            setFlashMsg(t('flash.newLegacy', { perk: newPerk }));
             setTimeout(() => setFlashMsg(null), 4000);
         }
+        if (newPerk) {
+            setRunPerks(prev => prev.includes(newPerk) ? prev : [...prev, newPerk]);
+        }
     }
 
-    const parsed = parseGameResponse(text);
-    setMessages(prev => [...prev, { role: 'model', content: parsed.narrative }]);
-    if (parsed.hudRaw) {
-        const newState = parseHudToState(parsed.hudRaw);
-        setGameState(newState);
+    // Death record / ending: hand over to the game-over screen
+    if (ending) {
+        setRunEnd(ending);
+        setPhase('game-over');
     }
   };
 
-  const handleSubmit = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!input.trim() || !gemini || isLoading) return;
+  // Clears everything belonging to the current run and starts a fresh GM session.
+  // Used for both the model's [SYSTEM_RESET] and local restarts from the game-over screen.
+  const resetRun = () => {
+    setMessages([]);
+    setGameState({});
+    setPrevGameState({});
+    setSelectedPerk(null);
+    setSelectedJob(null);
+    setSelectedJobId(null);
+    setActiveJob(null);
+    setRunHardcore(false);
+    setRunPerks([]);
+    setRunEnd(null);
+    setMemory(null);
+    setDiceState(createDiceSeed());
+    setRunSeed(null);
+    setSeedInput('');
+    setLocations([]);
+    clearAutosave();
+    // Force new session to clear context
+    const newService = createSession();
+    setNarrator(newService);
+  };
 
-    const userMsg = input;
-    setInput('');
-    setMessages(prev => [...prev, { role: 'user', content: userMsg }]);
+  const handleRestart = () => {
+    resetRun();
+    setPhase('selection');
+  };
+
+  const handleReturnToTitle = () => {
+    resetRun();
+    setPhase('intro');
+  };
+
+  // Rebuilds the GM session from `history`, replacing turns covered by the summary with it.
+  // A history shorter than the summary (rewind past it) invalidates the summary.
+  const resyncNarrator = async (history: Message[], mem: CampaignMemory | null = memory, service: NarratorProvider | null = narrator) => {
+    if (!service) return;
+    if (mem && history.length < mem.summarizedCount) {
+        mem = null;
+        setMemory(null);
+    }
+    // The codex and quest journal are rebuilt from the branch being resumed and join the preamble, so NPCs and objectives survive loads and rewinds
+    const context = buildContextHistory(history.map(withCheckText), mem, [formatCodexBlock(buildCodex(history)), formatJournalBlock(buildJournal(history))]);
+    await service.resumeGame(context, history.filter(m => m.role === 'model').length);
+  };
+
+  const compressMemory = async () => {
+    if (!narrator || compressingRef.current) return;
+    const cutoff = getCompressionCutoff(messages);
+    const from = memory ? memory.summarizedCount : 0;
+    if (cutoff <= from) return;
+
+    compressingRef.current = true;
+    setIsLoading(true);
+    try {
+        const output = await narrator.summarizeStory(memory ? describeMemory(memory) : '', messages.slice(from, cutoff).map(withCheckText));
+        const parsed = parseSummaryOutput(output);
+        const next: CampaignMemory = {
+            summary: parsed.summary,
+            facts: {
+                // Keep earlier facts if the summarizer dropped a section entirely
+                npcs: parsed.facts.npcs.length > 0 ? parsed.facts.npcs : memory?.facts.npcs || [],
+                quests: parsed.facts.quests.length > 0 ? parsed.facts.quests : memory?.facts.quests || [],
+                injuries: parsed.facts.injuries.length > 0 ? parsed.facts.injuries : memory?.facts.injuries || [],
+            },
+            pinnedHud: gameState,
+            summarizedCount: cutoff,
+            updatedAt: Date.now(),
+        };
+        await resyncNarrator(messages, next);
+        setMemory(next);
+        showFlash(t('flash.memoryCompressed', { count: cutoff }));
+    } catch (e) {
+        console.error("Failed to compress memory:", e);
+        showFlash(t('flash.memoryFailed'));
+    } finally {
+        compressingRef.current = false;
+        setIsLoading(false);
+    }
+  };
+
+  /**
+   * Streams the GM answer to `userMessage` while `displayed` is on screen.
+   * On abort (or a failed reroll) the chat goes back to `restore` and the session is re-synced to it.
+   */
+  const streamTurn = async (userMessage: Message, displayed: Message[], restore: Message[], reroll?: RerollContext) => {
+    if (!narrator) return;
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    setMessages(displayed);
     setIsLoading(true);
+    setStreamingText('');
 
+    let discard = false;
     try {
-        const response = await gemini.sendMessage(userMsg);
-        handleModelResponse(response);
+        let response = '';
+        // The client's check result and the player's position ride along with the action.
+        // Position comes from the checkpoint, so a reroll sends the same context as the original turn.
+        const turn = displayed.filter(m => m.role === 'user').length;
+        const locationNote = formatLocationForPrompt(userMessage.checkpoint?.location, locations.filter(v => v.turn < turn));
+        const outgoing = withCheckText(userMessage).content + (locationNote ? `\n\n${locationNote}` : '');
+        for await (const chunk of narrator.sendMessageStream(outgoing, controller.signal)) {
+            response += chunk;
+            setStreamingText(response);
+        }
+        // Parse once, on the complete turn
+        if (!controller.signal.aborted) {
+            handleModelResponse(response, reroll, { action: userMessage.content, count: turn, history: displayed });
+        }
     } catch (e) {
-        console.error(e);
-        setMessages(prev => [...prev, { role: 'system', content: '[ERROR] Connection lost. Retrying data packet...' }]);
+        if (!controller.signal.aborted) {
+            console.error(e);
+            if (reroll) {
+                discard = true;
+                setFlashMsg(t('flash.rerollFailed'));
+                setTimeout(() => setFlashMsg(null), 2000);
+            } else {
+                setMessages(prev => [...prev, { role: 'system', content: t('system.connectionLost') }]);
+            }
+        }
     } finally {
+        if (controller.signal.aborted || discard) {
+            // Discard the partial turn and re-sync the session without it
+            setMessages(restore);
+            if (!reroll) {
+                setInput(userMessage.content);
+                // Give the dice back so the same roll comes up when the action is sent again
+                if (userMessage.check) setDiceState(userMessage.check.rngState);
+            }
+            try {
+                await resyncNarrator(restore);
+            } catch (e) {
+                console.error("Failed to re-sync session after abort:", e);
+            }
+        }
+        streamAbortRef.current = null;
+        setStreamingText(null);
         setIsLoading(false);
     }
   };
 
+  const sendAction = async (userMsg: string, check?: CheckResult) => {
+    if (!userMsg.trim() || !narrator || isLoading) return;
+
+    const userMessage: Message = { role: 'user', content: userMsg, checkpoint: gameState, check };
+    await streamTurn(userMessage, [...messages, userMessage], messages);
+  };
+
+  // Reroll: drop the latest GM turn, rebuild the session without it and re-send the same input.
+  // Every candidate is kept on the new message so the player can page back before acting.
+  const handleReroll = async () => {
+    const lastIdx = messages.length - 1;
+    const last = messages[lastIdx];
+    if (!narrator || isLoading || !last || last.role !== 'model') return;
+
+    const candidates: ResponseCandidate[] = last.alternatives || [
+        { content: last.content, choices: last.choices, protocolIssues: last.protocolIssues, hudState: gameState, inventoryFlags: last.inventoryFlags, codexUpdates: last.codexUpdates, questUpdates: last.questUpdates, statusEffects: last.statusEffects }
+    ];
+
+    let userIdx = lastIdx - 1;
+    while (userIdx >= 0 && messages[userIdx].role !== 'user') userIdx--;
+
+    // Opening scene: there is no user input to re-send, so replay the start sequence
+    if (userIdx < 0) {
+        const job = findRunJob();
+        if (!job) return;
+        // Same seed, same opening parameters: only the GM's telling of it changes
+        const { setup, rngState } = generateRunSetup(runSeed ?? createRunSeed(), gameLanguage);
+        setRunSeed(setup.seed);
+        setDiceState(rngState);
+        setMessages([]);
+        setIsLoading(true);
+        try {
+            await narrator.resumeGame([], 0);
+            const response = await narrator.startGame(job, selectedPerk, setup);
+            handleModelResponse(response, { candidates, baseState: {} });
+        } catch (e) {
+            console.error("Failed to reroll opening:", e);
+            setMessages(messages);
+            await resyncNarrator(messages).catch(() => {});
+            setFlashMsg(t('flash.rerollFailed'));
+            setTimeout(() => setFlashMsg(null), 2000);
+        } finally {
+            setIsLoading(false);
+        }
+        return;
+    }
+
+    const userMessage = messages[userIdx];
+    const history = messages.slice(0, userIdx);
+    try {
+        await resyncNarrator(history);
+    } catch (e) {
+        console.error("Failed to rebuild session for reroll:", e);
+        return;
+    }
+    // Same action, same roll: only the GM's narration is rerolled
+    await streamTurn(
+        userMessage,
+        messages.slice(0, userIdx + 1),
+        messages,
+        { candidates, baseState: userMessage.checkpoint || {} }
+    );
+  };
+
+  // Page between rerolled candidates of the latest GM turn; the session follows the shown one
+  const handleSelectAlternative = async (altIndex: number) => {
+    const lastIdx = messages.length - 1;
+    const last = messages[lastIdx];
+    if (!narrator || isLoading || !last || !last.alternatives) return;
+    const alt = last.alternatives[altIndex];
+    if (!alt) return;
+
+    const updated: Message[] = [
+        ...messages.slice(0, lastIdx),
+        { ...last, content: alt.content, choices: alt.choices, protocolIssues: alt.protocolIssues, inventoryFlags: alt.inventoryFlags, codexUpdates: alt.codexUpdates, questUpdates: alt.questUpdates, statusEffects: alt.statusEffects, alternativeIndex: altIndex },
+    ];
+    setMessages(updated);
+    setGameState(alt.hudState);
+    const turn = updated.filter(m => m.role === 'user').length;
+    setLocations(prev => recordVisit(prev.filter(v => v.turn < turn), alt.hudState.location, turn));
+    try {
+        await resyncNarrator(updated);
+    } catch (e) {
+        console.error("Failed to switch candidate:", e);
+    }
+  };
+
+  const getStreamingPreview = (partial: string): string => {
+    if (narratorConfig.protocol === 'json' && partial.trimStart().startsWith('{')) {
+        return getStreamingStructuredNarrative(partial);
+    }
+    return getStreamingNarrative(partial);
+  };
+
+  // Rewind: drop this action and everything after it, restore the HUD checkpoint,
+  // and rebuild the GM session from the truncated history so the player can branch.
+  const handleRewind = async (index: number) => {
+    const target = messages[index];
+    if (!narrator || isLoading || runHardcore || !target || target.role !== 'user') return;
+
+    const truncated = messages.slice(0, index);
+    setMessages(truncated);
+    setGameState(deriveNumericState(target.checkpoint || {}));
+    setPrevGameState({});
+    setInput(target.content);
+    // Rewinding past a roll rewinds the dice too, so branching can't fish for a better result
+    const firstCheck = messages.slice(index).find(m => m.check)?.check;
+    if (firstCheck) setDiceState(firstCheck.rngState);
+    const turnsLeft = truncated.filter(m => m.role === 'user').length;
+    setLocations(prev => prev.filter(v => v.turn <= turnsLeft));
+
+    try {
+        await resyncNarrator(truncated);
+        setFlashMsg(t('flash.rewound', { turn: truncated.filter(m => m.role === 'user').length + 1 }));
+    } catch (e) {
+        console.error("Failed to rewind session:", e);
+        setFlashMsg(t('flash.rewindFailed'));
+    }
+    setTimeout(() => setFlashMsg(null), 2000);
+  };
+
+  const handleStopGenerating = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!input.trim() || !narrator || isLoading) return;
+
+    const userMsg = input;
+    setInput('');
+    sendAction(userMsg);
+  };
+
+  // Choices offered by the latest model turn (hidden once the player has acted)
+  const getActiveChoices = (): string[] => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const msg = messages[i];
+        if (msg.role === 'system') continue;
+        return msg.role === 'model' ? (msg.choices || []) : [];
+    }
+    return [];
+  };
+
+  const activeChoices = getActiveChoices();
+
+  // Inventory view of the [장비] line, plus what the latest GM turn changed without explanation
+  const inventory = parseInventory(gameState.equipment);
+  const latestModelTurn = [...messages].reverse().find(m => m.role === 'model');
+  const inventoryFlags = latestModelTurn?.inventoryFlags;
+  const codex = buildCodex(messages);
+  const journal = buildJournal(messages);
+  const statusTimeline = getStatusTimeline(messages);
+  // Pack recipes extend the built-ins, mods extend both
+  const recipeBook = mergeRecipes(BUILTIN_RECIPES, activePack.recipes, customRecipes)
+      .map(recipe => checkRecipe(recipe, inventory, gameState.tags || []));
+
+  // Item actions go to the GM as ordinary player input, worded in the narration language
+  const handleItemAction = (action: 'use' | 'drop' | 'inspect', item: InventoryItem) => {
+    if (isLoading || !narrator) return;
+    setExpandedItem(null);
+    setIsMobileMenuOpen(false);
+    sendAction(createTranslator(gameLanguage)(`inventory.action.${action}`, { item: item.name }));
+  };
+
+  // Picking a choice rolls the check locally; free-text actions are left to the GM
+  const handleChoiceSelect = (choice: string) => {
+    if (isLoading || !narrator) return;
+    const { check, rngState } = resolveCheck(choice, gameState, diceState);
+    setDiceState(rngState);
+    sendAction(choice, check);
+  };
+
+  // Crafting goes out as a structured action with a check on the recipe's skill; the GM narrates the result
+  const handleCraft = (recipe: Recipe) => {
+    if (isLoading || !narrator) return;
+    setIsMobileMenuOpen(false);
+    const action = createTranslator(gameLanguage)('craft.action', {
+        skill: getCraftSkill(recipe),
+        recipe: recipe.name,
+        consumes: describeIngredients(recipe, true) ?? '-',
+        tools: describeIngredients(recipe, false) ?? '-',
+        output: `${recipe.output.name} x${recipe.output.quantity}`,
+    });
+    const { check, rngState } = resolveCheck(action, gameState, diceState);
+    setDiceState(rngState);
+    sendAction(action, check);
+  };
+
+  const handleFreeAction = () => {
+    inputRef.current?.focus();
+  };
+
+  // Number-key shortcuts for choices ("0" focuses the free-text input)
+  useEffect(() => {
+    if (phase !== 'playing') return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (!/^[0-9]$/.test(e.key) || e.ctrlKey || e.metaKey || e.altKey) return;
+        if (isSystemMenuOpen || inspectedTag) return;
+        // Don't hijack digits while the player is typing a free action
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+        if (e.key === '0') {
+            e.preventDefault();
+            handleFreeAction();
+            return;
+        }
+
+        const choice = activeChoices.find(c => c.startsWith(`${e.key}.`));
+        if (choice && !isLoading) {
+            e.preventDefault();
+            handleChoiceSelect(choice);
+        }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // --- SAVE / LOAD HANDLERS ---
   
-  const handleSave = (index: number) => {
-      const newSave: SaveFile = {
-          timestamp: Date.now(),
-          summary: gameState.notes || `Scenario #${messages.length}`,
-          messages: messages,
-          gameState: gameState,
-          phase: phase,
-          selectedPerk: selectedPerk
-      };
-      
-      const newSlots = [...saveSlots];
-      newSlots[index] = newSave;
-      setSaveSlots(newSlots);
-      localStorage.setItem(STORAGE_KEY_SAVES, JSON.stringify(newSlots));
-      setFlashMsg(`[SYSTEM] DATA SAVED TO SLOT ${index + 1}`);
-      setTimeout(() => setFlashMsg(null), 2000);
+  const buildSaveFile = (name: string, id: string = createSaveId()): SaveFile => ({
+      version: SAVE_FILE_VERSION,
+      id,
+      name,
+      timestamp: Date.now(),
+      summary: gameState.notes || `Scenario #${messages.length}`,
+      messages: messages,
+      gameState: gameState,
+      // The opening turn arrives during the prologue; it resumes as a normal game
+      phase: phase === 'prologue' ? 'playing' : phase,
+      selectedPerk: selectedPerk,
+      selectedJob: selectedJob,
+      selectedJobId,
+      hardcore: runHardcore,
+      memory,
+      diceState,
+      runSeed,
+      locations,
+      promptPack: toPackRef(activePack),
+  });
+
+  const clearAutosave = () => {
+      setAutosave(null);
+      persist(repository.putAutosave(null));
+  };
+
+  const showFlash = (msg: string, ms: number = 2000) => {
+      setFlashMsg(msg);
+      setTimeout(() => setFlashMsg(null), ms);
   };
 
-  const handleLoad = async (index: number) => {
-      const save = saveSlots[index];
-      if (!save || !gemini) return;
+  const handleCreateSave = async (name: string) => {
+      const newSave = buildSaveFile(name);
+      if (!await persist(repository.putSave(newSave))) return;
+      setSaves(prev => [...prev, newSave]);
+      showFlash(t('flash.saved', { name }));
+  };
+
+  const handleOverwriteSave = async (id: string) => {
+      const existing = saves.find(save => save.id === id);
+      if (!existing) return;
+      const newSave = buildSaveFile(existing.name, existing.id);
+      if (!await persist(repository.putSave(newSave))) return;
+      setSaves(prev => prev.map(save => save.id === id ? newSave : save));
+      showFlash(t('flash.overwritten', { name: existing.name }));
+  };
+
+  const handleLoad = (id: string) => {
+      const save = saves.find(s => s.id === id);
+      if (save) restoreSave(save, save.name);
+  };
+
+  const handleResumeAutosave = () => {
+      if (autosave) restoreSave(autosave, t('resume.source'));
+  };
+
+  const restoreSave = async (save: SaveFile, sourceLabel: string) => {
+      if (!narrator) return;
 
       setIsSystemMenuOpen(false);
       setPhase(save.phase);
       setMessages(save.messages);
-      setGameState(save.gameState);
+      setGameState(deriveNumericState(save.gameState));
+      setPrevGameState({});
       setSelectedPerk(save.selectedPerk);
+      setSelectedJob(save.selectedJob);
+      setSelectedJobId(save.selectedJobId ?? null);
+      setRunHardcore(save.hardcore ?? false);
+      setActiveJob(null); // re-resolved by id if the opening is rerolled
+      setRunPerks([]);
+      setRunEnd(null);
+      setMemory(save.memory ?? null);
+      setDiceState(save.diceState ?? createDiceSeed());
+      setRunSeed(save.runSeed ?? null);
+      setLocations(save.locations ?? []);
+
+      // Resumed games keep the rules they were started with
+      const { pack, exact } = resolvePromptPack(save.promptPack, promptPacks);
+      let service = narrator;
+      if (!isSamePack(toPackRef(pack), toPackRef(activePack))) {
+          service = createSession(pack);
+          setNarrator(service);
+          setActivePack(pack);
+      }
       
       // Resume AI Session
       try {
-          await gemini.resumeGame(save.messages);
-          setFlashMsg(`[SYSTEM] SIMULATION RESTORED FROM SLOT ${index + 1}`);
+          await resyncNarrator(save.messages, save.memory ?? null, service);
+          setFlashMsg(exact
+              ? t('flash.restored', { source: sourceLabel })
+              : t('flash.packMissing', { missing: `${save.promptPack.id}@${save.promptPack.version}`, used: `${pack.id}@${pack.version}` }));
       } catch (e) {
           console.error("Failed to resume game:", e);
-          setFlashMsg(`[ERROR] FAILED TO RESTORE SESSION`);
+          setFlashMsg(t('flash.restoreFailed'));
       }
       setTimeout(() => setFlashMsg(null), 2000);
   };
 
-  const handleDeleteSave = (index: number, e: React.MouseEvent) => {
-      e.stopPropagation();
-      const newSlots = [...saveSlots];
-      newSlots[index] = null;
-      setSaveSlots(newSlots);
-      localStorage.setItem(STORAGE_KEY_SAVES, JSON.stringify(newSlots));
+  const handleDeleteSaves = async (ids: string[]) => {
+      if (!await persist(repository.deleteSaves(ids))) return;
+      setSaves(prev => prev.filter(save => !ids.includes(save.id)));
+  };
+
+  // --- EXPORT / IMPORT ---
+
+  const handleExportSave = (id: string) => {
+      const save = saves.find(s => s.id === id);
+      if (!save) return;
+      const safeName = save.name.replace(/[^\w가-힣-]+/g, '_').slice(0, 40);
+      downloadJson(createSlotExport(save), `seoul_fallout_${safeName}_${save.timestamp}.json`);
+  };
+
+  const handleExportAll = () => {
+      downloadJson(
+          createBundleExport(saves, unlockedPerks, { ...visualSettings }),
+          `seoul_fallout_backup_${Date.now()}.json`
+      );
   };
 
+  const importedSaves = (imported: SaveExport): SaveFile[] => imported.kind === 'slot' ? [imported.save] : imported.saves;
+
+  const handleImportFile = async (file: File) => {
+      try {
+          const imported = parseSaveExport(await file.text(), t);
+          // Same id = same save (re-importing a backup); it replaces the existing one, so ask first
+          const incomingIds = importedSaves(imported).map(save => save.id);
+          const conflicts = saves.filter(save => incomingIds.includes(save.id));
+          if (conflicts.length > 0) {
+              setPendingImport({ imported, conflicts });
+              return;
+          }
+          await applyImport(imported);
+      } catch (err: unknown) {
+          console.error("Failed to import save file", err);
+          showFlash(t('flash.importFailed', { message: (err instanceof Error && err.message) || t('common.unknownError') }), 3000);
+      }
+  };
+
+  const applyImport = async (imported: SaveExport) => {
+      const incoming = importedSaves(imported);
+      for (const save of incoming) {
+          if (!await persist(repository.putSave(save))) return;
+      }
+      const incomingIds = incoming.map(save => save.id);
+      setSaves(prev => [...prev.filter(save => !incomingIds.includes(save.id)), ...incoming]);
+
+      if (imported.kind === 'bundle') {
+          // Perks are merged, never dropped
+          const mergedPerks = Array.from(new Set([...unlockedPerks, ...imported.legacyPerks]));
+          setUnlockedPerks(mergedPerks);
+          persist(repository.putLegacyPerks(mergedPerks));
+
+          if (imported.settings) {
+              updateSettings(pickSettings(imported.settings));
+          }
+      }
+      showFlash(t('flash.imported', { count: incoming.length }), 3000);
+  };
+
+  // Crash recovery entry point (intro + selection screens)
+  const renderResumeButton = () => autosave && (
+      <button
+          onClick={handleResumeAutosave}
+          className={`w-full mt-4 p-4 text-left border border-dashed font-mono transition-all ${
+              isRetro
+                  ? 'border-[#ffb000] text-[#ffb000] hover:bg-[#ffb000]/10'
+                  : 'border-yellow-700 text-yellow-500 hover:border-yellow-500 hover:bg-yellow-900/10'
+          }`}
+      >
+          <div className="font-bold text-sm tracking-widest">{t('resume.title')}</div>
+          <div className="text-[10px] opacity-60 mt-1 truncate">
+              {new Date(autosave.timestamp).toLocaleString()}
+              {autosave.selectedJob ? ` · ${autosave.selectedJob}` : ''}
+              {autosave.selectedPerk ? ` · ${autosave.selectedPerk}` : ''}
+              {` · ${t('resume.turns', { count: autosave.messages.filter(m => m.role === 'user').length })}`}
+          </div>
+      </button>
+  );
+
+  // Storage failures (e.g. quota exceeded) stay on screen until dismissed
+  const renderStorageError = () => storageError && (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[80] max-w-md w-[90%] p-3 bg-black border border-red-600 text-red-500 font-mono text-xs shadow-[0_0_20px_rgba(255,0,0,0.3)] flex items-start gap-3">
+          <div className="flex-1">
+              <div className="font-bold mb-1">{t('storage.title')}</div>
+              <div className="opacity-90">{storageError}</div>
+          </div>
+          <button onClick={() => setStorageError(null)} className="px-2 border border-red-800 hover:bg-red-900 hover:text-white">X</button>
+      </div>
+  );
+
+  const renderSaveManager = (canSave: boolean) => (
+      <>
+      <SaveManager
+          saves={saves}
+          canSave={canSave}
+          defaultSaveName={t('save.defaultName', { job: selectedJob || t('save.survivor'), turn: messages.filter(m => m.role === 'user').length })}
+          flashMsg={flashMsg}
+          isRetro={isRetro}
+          t={t}
+          onCreate={handleCreateSave}
+          onOverwrite={handleOverwriteSave}
+          onLoad={handleLoad}
+          onDelete={handleDeleteSaves}
+          onExport={handleExportSave}
+          onExportAll={handleExportAll}
+          onImportFile={handleImportFile}
+          onClose={() => setIsSystemMenuOpen(false)}
+      />
+      {pendingImport && (
+          <ConfirmDialog
+              title={t('save.importConflictTitle')}
+              message={t('save.importConflictMessage', {
+                  count: pendingImport.conflicts.length,
+                  names: pendingImport.conflicts.map(save => `'${save.name}'`).join(', '),
+              })}
+              confirmLabel={t('save.importOverwrite')}
+              danger
+              isRetro={isRetro}
+              onConfirm={() => {
+                  const { imported } = pendingImport;
+                  setPendingImport(null);
+                  applyImport(imported);
+              }}
+              onCancel={() => setPendingImport(null)}
+          />
+      )}
+      </>
+  );
 
   // Helper for Tag Descriptions (Initial Sync Info)
   const getTagDescription = (tagRaw: string): {name: string, desc: string} => {
@@ -324,31 +1122,23 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
       if (selectedPerk && (tag.includes(cleanPerkName) || cleanPerkName.includes(tag))) {
           return { 
               name: `[LEGACY] ${tagRaw}`, 
-              desc: `[계승된 기억: ${tag}]\n\n이전 회차의 생존 기록에서 계승된 고유 능력입니다.` 
+              desc: `${t('tag.legacyTitle', { tag })}\n\n${t('tag.legacyDesc')}` 
           };
       }
 
-      // 2. Local fallback dictionary
-      const TAG_DICT: Record<string, string> = {
-        '전투': '근접 및 각종 전투 상황에서의 대처 능력입니다. 위기 상황에서 생존 확률이 대폭 상승합니다.',
-        '화기': '총기류 및 화약 무기를 전문적으로 다루는 능력입니다. 명중률 보정 및 재장전 속도가 빠릅니다.',
-        '공학': '기계 장치, 전자 도어락, 드론 등을 조작하거나 수리하는 기술입니다.',
-        '해킹': '구시대의 보안 시스템을 뚫고 정보를 얻거나 포탑 등을 무력화하는 능력입니다.',
-        '의학': '응급 처치, 수술, 약물 혼합 등 생명과 직결된 의료 지식입니다.',
-        '화학': '폭발물 제조, 독극물 판별, 마약류 정제 등에 사용되는 지식입니다.',
-        '은신': '적의 시야에서 벗어나 조용히 이동하는 능력입니다. 기습이나 회피에 유리합니다.',
-        '탐색': '숨겨진 아이템이나 길을 찾는 능력입니다. 물자 부족 상황에서 빛을 발합니다.',
-        // Add more common status tags
-        '부상': '신체에 데미지를 입은 상태입니다. 피지컬 판정에 불리하며 지속되면 감염 위험이 있습니다.',
-        '배고픔': '영양 섭취가 필요한 상태입니다. 장기간 지속 시 스탯이 하락합니다.',
-        '방사능': '피폭 상태입니다. 서서히 최대 체력이 감소하며 돌연변이를 유발할 수 있습니다.',
-      };
-      
-      if (TAG_DICT[tag]) {
-          return { name: tagRaw, desc: `[능력 분석: ${tag}]\n\n${TAG_DICT[tag]}` };
+      // 2. Known status effect: its mechanics come from the catalog
+      const effect = findStatusEffect(tag);
+      if (effect) {
+          return { name: tagRaw, desc: `${t('tag.statusTitle', { tag })}\n\n${effect.mechanics[language]}` };
       }
 
-      return { name: tagRaw, desc: `[상태 분석: ${tag}]\n\n현재 시뮬레이션 환경 또는 플레이어의 신체/정신 상태에 영향을 미치는 활성 변수입니다.` };
+      // 3. Local fallback glossary (matches Korean/English/Japanese tag names)
+      const glossary = lookupTagDescription(tag, language);
+      if (glossary) {
+          return { name: tagRaw, desc: `${t('tag.abilityTitle', { tag })}\n\n${glossary}` };
+      }
+
+      return { name: tagRaw, desc: `${t('tag.statusTitle', { tag })}\n\n${t('tag.statusDesc')}` };
   };
 
   // --- Styles ---
@@ -388,15 +1178,15 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     SEOUL FALLOUT
                 </h1>
                 <p className={`font-mono text-sm md:text-base mb-8 opacity-80 ${isRetro ? 'text-[#cc8800]' : 'text-gray-400'}`}>
-                    Post-Apocalyptic Survival Simulation<br/>
-                    Seoul, 2045. No Plot Armor. No Mercy.
+                    {t('intro.subtitle')}<br/>
+                    {t('intro.tagline')}
                 </p>
                 <div className="space-y-4 font-mono text-xs text-left mb-8 opacity-70 p-4 border border-dashed border-gray-800">
-                    <p>SYSTEM WARNING:</p>
+                    <p>{t('intro.warning')}</p>
                     <ul className="list-disc pl-5 space-y-1">
-                        <li>This simulation contains graphical descriptions of violence and trauma.</li>
-                        <li>RNG is absolute. Death is permanent.</li>
-                        <li>Your choices determine your survival.</li>
+                        <li>{t('intro.warningViolence')}</li>
+                        <li>{t('intro.warningRng')}</li>
+                        <li>{t('intro.warningChoices')}</li>
                     </ul>
                 </div>
                 <button 
@@ -407,8 +1197,9 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                         : 'border-green-600 text-green-500 hover:bg-green-500'
                     }`}
                 >
-                    CONNECT TO SERVER
+                    {t('intro.connect')}
                 </button>
+                {autosave && renderResumeButton()}
             </div>
         </div>
       );
@@ -421,9 +1212,10 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
              {visualSettings.fontStyle === 'style-digital' && (
                 <div className="fixed inset-0 crt-overlay pointer-events-none z-10"></div>
             )}
+            {renderStorageError()}
             <div className={`max-w-md w-full relative z-20`}>
                 <h2 className={`text-2xl font-mono mb-8 text-center border-b pb-4 ${borderColor} ${accentColor}`}>
-                    INITIALIZATION SEQUENCE
+                    {t('selection.title')}
                 </h2>
                 
                 {flashMsg && (
@@ -433,6 +1225,8 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                 )}
 
                 <div className="space-y-4">
+                    {autosave && renderResumeButton()}
+
                     <button 
                         onClick={() => handleModeSelect(false)}
                         className={`w-full p-6 text-left border group transition-all relative overflow-hidden ${
@@ -442,10 +1236,10 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                         }`}
                     >
                         <div className={`font-bold font-mono text-xl mb-1 group-hover:pl-2 transition-all ${isRetro ? 'text-[#ffb000]' : 'text-white'}`}>
-                            ZERO HOUR
+                            {t('selection.zeroHour')}
                         </div>
                         <div className="text-xs font-mono opacity-50">
-                            Start a new timeline. Random start. High morality risk.
+                            {t('selection.zeroHourDesc')}
                         </div>
                     </button>
 
@@ -459,22 +1253,79 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     >
                         <div className="flex justify-between items-center mb-1">
                             <div className="font-bold font-mono text-xl group-hover:pl-2 transition-all">
-                                LEGACY ACCESS
+                                {t('selection.legacy')}
                             </div>
                             <div className="text-xs border px-2 py-0.5 opacity-70">
-                                {unlockedPerks.length} PERKS
+                                {t('selection.perkCount', { count: unlockedPerks.length })}
                             </div>
                         </div>
                         <div className="text-xs font-mono opacity-50">
-                            Apply Perks from previous survival records.
+                            {t('selection.legacyDesc')}
                         </div>
                     </button>
 
+                    {/* Prompt Pack */}
+                    <div className={`p-4 border font-mono text-xs ${borderColor}`}>
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="opacity-60 uppercase tracking-widest">{t('selection.promptPack')}</span>
+                            <button
+                                onClick={() => packFileRef.current?.click()}
+                                className={`opacity-60 hover:opacity-100 uppercase ${accentColor}`}
+                            >
+                                {t('selection.loadPack')}
+                            </button>
+                            <input
+                                ref={packFileRef}
+                                type="file"
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleImportPack(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+                        <select
+                            value={`${activePack.id}@${activePack.version}`}
+                            onChange={(e) => handlePackSelect(e.target.value)}
+                            className={`w-full p-2 bg-black border outline-none ${borderColor} ${accentColor}`}
+                        >
+                            {promptPacks.map(pack => (
+                                <option key={`${pack.id}@${pack.version}`} value={`${pack.id}@${pack.version}`}>
+                                    {pack.name} (v{pack.version})
+                                </option>
+                            ))}
+                        </select>
+                        {activePack.description && (
+                            <div className="mt-2 opacity-50">{activePack.description}</div>
+                        )}
+                        <div className="mt-3 flex items-center gap-2">
+                            <span className="opacity-60 uppercase tracking-widest flex-1">{t('selection.gmLanguage')}</span>
+                            {LANGUAGES.map(lang => (
+                                <button
+                                    key={lang.id}
+                                    onClick={() => handleGameLanguageSelect(lang.id)}
+                                    className={`px-2 py-0.5 border ${gameLanguage === lang.id ? `${accentColor} border-current` : 'opacity-40 border-transparent hover:opacity-100'}`}
+                                >
+                                    {lang.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     <button 
                         onClick={() => setIsSystemMenuOpen(true)}
                         className={`w-full p-4 text-center border font-mono text-xs tracking-widest uppercase hover:bg-opacity-10 transition-all ${borderColor} ${accentColor}`}
                     >
-                        [ LOAD SAVE DATA ]
+                        {t('selection.loadSave')}
+                    </button>
+
+                    <button 
+                        onClick={() => setPhase('archive')}
+                        className={`w-full p-4 text-center border font-mono text-xs tracking-widest uppercase hover:bg-opacity-10 transition-all ${borderColor} ${accentColor}`}
+                    >
+                        {t('selection.archive', { count: runArchive.length })}
                     </button>
                 </div>
                 
@@ -482,49 +1333,11 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     onClick={() => setPhase('intro')}
                     className="mt-8 w-full text-center text-xs font-mono opacity-30 hover:opacity-100 transition-opacity"
                 >
-                    [ RETURN TO TITLE ]
+                    {t('common.returnToTitle')}
                 </button>
             </div>
-             {/* Load Modal only for this screen (simplified) */}
-             {isSystemMenuOpen && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={() => setIsSystemMenuOpen(false)}>
-                    <div className={`max-w-md w-full p-6 border shadow-2xl ${isRetro ? 'bg-[#1a1000] border-[#ffb000]' : 'bg-gray-900 border-green-500'}`} onClick={e => e.stopPropagation()}>
-                        <h3 className={`text-xl font-mono mb-4 border-b pb-2 ${accentColor}`}>LOAD MEMORY</h3>
-                         <div className="space-y-2">
-                            {saveSlots.map((slot, i) => (
-                                <div key={i} className={`p-3 border flex justify-between items-center ${
-                                    slot 
-                                    ? (isRetro ? 'border-[#553b00] bg-[#221500]' : 'border-gray-700 bg-gray-800')
-                                    : 'border-dashed border-gray-800 opacity-50'
-                                }`}>
-                                    {slot ? (
-                                        <>
-                                            <div className="flex-1 overflow-hidden">
-                                                <div className={`text-xs font-bold ${accentColor}`}>
-                                                    {new Date(slot.timestamp).toLocaleString()}
-                                                </div>
-                                                <div className="text-[10px] opacity-70 truncate">
-                                                    {slot.summary}
-                                                </div>
-                                            </div>
-                                            <button 
-                                                onClick={() => handleLoad(i)}
-                                                className={`px-3 py-1 text-xs font-bold border ${
-                                                    isRetro ? 'border-[#ffb000] text-[#ffb000]' : 'border-green-500 text-green-500'
-                                                } hover:bg-current hover:bg-opacity-10`}
-                                            >
-                                                LOAD
-                                            </button>
-                                        </>
-                                    ) : (
-                                        <div className="text-xs font-mono text-center w-full py-2">EMPTY SLOT</div>
-                                    )}
-                                </div>
-                            ))}
-                         </div>
-                    </div>
-                </div>
-            )}
+             {/* Load-only save browser for this screen */}
+             {isSystemMenuOpen && renderSaveManager(false)}
         </div>
       );
   }
@@ -538,10 +1351,10 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
             )}
             <div className={`max-w-2xl w-full relative z-20`}>
                 <h2 className={`text-2xl font-mono mb-2 text-center ${accentColor}`}>
-                    LEGACY DATABASE
+                    {t('perk.title')}
                 </h2>
                 <div className="text-center text-xs opacity-50 mb-8 font-mono">
-                    Select one perk to initialize this timeline.
+                    {t('perk.subtitle')}
                 </div>
 
                 <div className="grid grid-cols-1 gap-3 max-h-[50vh] overflow-y-auto pr-2 custom-scrollbar">
@@ -564,7 +1377,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     onClick={() => setPhase('selection')}
                     className="mt-8 w-full text-center text-xs font-mono opacity-30 hover:opacity-100 transition-opacity"
                 >
-                    [ 뒤로 가기 ]
+                    {t('common.back')}
                 </button>
             </div>
         </div>
@@ -580,18 +1393,40 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
             )}
             <div className={`max-w-4xl w-full relative z-20`}>
                 <h2 className={`text-xl font-mono mb-2 text-center ${accentColor}`}>
-                    직업 선택 (SELECT CLASS)
+                    {t('job.title')}
                 </h2>
                 <div className="text-center text-xs opacity-50 mb-8 font-mono">
-                    모드: {selectedPerk ? `계승 적용 [${selectedPerk}]` : '제로 아워 (초기화)'}
+                    {t('job.mode', { mode: selectedPerk ? t('job.modeLegacy', { perk: selectedPerk }) : t('job.modeZero') })}
+                </div>
+
+                {/* Run seed: same code, same opening */}
+                <div className={`mb-4 p-3 border font-mono text-xs flex items-center gap-2 ${borderColor}`}>
+                    <span className="opacity-60 uppercase tracking-widest shrink-0">{t('seed.label')}</span>
+                    <input
+                        type="text"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value)}
+                        onBlur={() => setSeedInput(normalizeSeedCode(seedInput))}
+                        placeholder={t('seed.placeholder')}
+                        maxLength={16}
+                        className={`flex-1 min-w-0 px-2 py-1 bg-black border outline-none uppercase tracking-widest ${borderColor} ${accentColor}`}
+                    />
+                    <button
+                        onClick={() => setSeedInput(createRunSeed())}
+                        className={`opacity-60 hover:opacity-100 uppercase shrink-0 ${accentColor}`}
+                    >
+                        {t('seed.random')}
+                    </button>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {JOBS.map((job) => (
+                    {[...BUILTIN_JOBS, ...customJobs].map((definition) => {
+                        const job = localizeJob(definition, t);
+                        return (
                         <button 
                             key={job.id}
-                            onClick={() => handleJobSelect(job.name)}
-                            className={`p-6 border text-left group transition-all relative overflow-hidden flex flex-col justify-between h-32 ${
+                            onClick={() => handleJobSelect(definition)}
+                            className={`p-6 border text-left group transition-all relative overflow-hidden flex flex-col justify-between min-h-32 ${
                                 isRetro 
                                 ? 'border-[#553b00] hover:border-[#ffb000] hover:bg-[#ffb000]/10' 
                                 : 'border-gray-800 hover:border-green-500 hover:bg-gray-900'
@@ -600,29 +1435,55 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                             <div>
                                 <div className={`font-bold font-mono text-lg mb-1 group-hover:text-white transition-colors ${isRetro ? 'text-[#ffb000]' : 'text-gray-200'}`}>
                                     {job.name}
+                                    {!isBuiltinJob(job) && <span className="ml-2 text-[10px] opacity-50">{t('job.custom')}</span>}
                                 </div>
                                 <div className="text-xs opacity-60 font-sans">
-                                    {job.desc}
+                                    {job.description}
+                                </div>
+                                <div className="text-[10px] font-mono opacity-50 mt-2">
+                                    {STAT_ROWS.map(stat => `${t(stat.labelKey)} ${job.statRanges[stat.key][0]}-${job.statRanges[stat.key][1]}`).join(' · ')}
+                                </div>
+                                <div className="text-[10px] font-mono opacity-40 mt-1 line-clamp-1">
+                                    {t('job.equipmentPool', { items: job.equipmentPool.join(', ') })}
                                 </div>
                             </div>
                             <div className="flex gap-2 mt-2">
-                                {job.tags.map(tag => (
+                                {job.startingTags.map(tag => (
                                     <span key={tag} className="text-[10px] uppercase border border-opacity-30 px-1 opacity-70">
-                                        {tag}
+                                        {localizeTag(tag, language)}
                                     </span>
                                 ))}
                             </div>
                         </button>
-                    ))}
+                        );
+                    })}
                 </div>
 
+                <button
+                    onClick={() => setIsJobEditorOpen(true)}
+                    className={`mt-4 w-full py-2 text-xs font-mono border border-dashed opacity-60 hover:opacity-100 transition-opacity ${borderColor} ${accentColor}`}
+                >
+                    {t('job.openEditor')}
+                </button>
+
                 <button 
                     onClick={() => setPhase('selection')}
                     className="mt-8 w-full text-center text-xs font-mono opacity-30 hover:opacity-100 transition-opacity"
                 >
-                    [ 뒤로 가기 ]
+                    {t('common.back')}
                 </button>
             </div>
+
+            {isJobEditorOpen && (
+                <JobEditor
+                    builtinJobs={BUILTIN_JOBS.map(job => localizeJob(job, t))}
+                    customJobs={customJobs}
+                    isRetro={isRetro}
+                    t={t}
+                    onSave={handleSaveCustomJobs}
+                    onClose={() => setIsJobEditorOpen(false)}
+                />
+            )}
         </div>
       );
   }
@@ -639,7 +1500,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                             prologueStep > idx ? 'opacity-100' : 'opacity-0'
                         } ${idx === PROLOGUE_LINES.length - 1 ? 'text-red-600 font-bold' : 'text-gray-300'}`}
                     >
-                        {line}
+                        {t(line)}
                     </div>
                 ))}
              </div>
@@ -651,14 +1512,14 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                          <div className="w-16 h-1 bg-gray-800 rounded overflow-hidden">
                              <div className="h-full bg-red-600 animate-[width_2s_infinite]"></div>
                          </div>
-                         <span className="text-xs font-mono text-red-500 tracking-widest animate-pulse">GENERATING WORLD STATE...</span>
+                         <span className="text-xs font-mono text-red-500 tracking-widest animate-pulse">{t('prologue.generating')}</span>
                      </div>
                  ) : (
                      <button
                         onClick={() => setPhase('playing')}
                         className="px-8 py-3 border-2 border-red-600 text-red-500 font-mono text-lg tracking-[0.2em] hover:bg-red-900/20 hover:text-red-400 transition-all animate-pulse"
                      >
-                         [ SIMULATION START ]
+                         {t('prologue.start')}
                      </button>
                  )}
              </div>
@@ -666,7 +1527,42 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
       );
   }
 
-  // 6. Playing Phase (Main Game UI)
+  // 6. Run Archive (사망 기록부 hall)
+  if (phase === 'archive') {
+      return (
+        <RunArchiveScreen
+            records={runArchive}
+            isRetro={isRetro}
+            t={t}
+            containerClasses={getContainerClasses()}
+            showCrt={visualSettings.fontStyle === 'style-digital'}
+            onBack={() => setPhase('selection')}
+        />
+      );
+  }
+
+  // 7. Game Over Screen (death record / ending)
+  if (phase === 'game-over' && runEnd) {
+      return (
+        <>
+        {renderStorageError()}
+        <GameOverScreen
+            runEnd={runEnd}
+            turnsSurvived={messages.filter(m => m.role === 'user').length}
+            perksEarned={runPerks}
+            objectivesCompleted={getCompletedObjectives(journal)}
+            isRetro={isRetro}
+            t={t}
+            containerClasses={getContainerClasses()}
+            showCrt={visualSettings.fontStyle === 'style-digital'}
+            onRestart={handleRestart}
+            onReturnToTitle={handleReturnToTitle}
+        />
+        </>
+      );
+  }
+
+  // 8. Playing Phase (Main Game UI)
   return (
     <div className={`flex flex-col md:flex-row h-screen w-full overflow-hidden relative transition-colors duration-300 ${getContainerClasses()}`}>
       
@@ -692,6 +1588,8 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
           </button>
       </div>
 
+      {renderStorageError()}
+
       {/* FLASH MESSAGE OVERLAY (Game Phase) */}
       {flashMsg && (
         <div className="absolute top-10 left-1/2 -translate-x-1/2 z-50 px-6 py-2 bg-black border border-green-500 text-green-500 font-mono shadow-[0_0_20px_rgba(0,255,0,0.3)] animate-pulse">
@@ -700,86 +1598,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
       )}
 
       {/* SYSTEM MENU MODAL (SAVE/LOAD) */}
-      {isSystemMenuOpen && (
-          <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={() => setIsSystemMenuOpen(false)}>
-              <div 
-                  className={`max-w-md w-full p-6 border shadow-2xl relative ${isRetro ? 'bg-[#1a1000] border-[#ffb000] text-[#ffb000]' : 'bg-gray-900 border-green-500 text-gray-200'}`}
-                  onClick={e => e.stopPropagation()}
-              >
-                  <h3 className={`text-xl font-bold font-mono mb-4 border-b pb-2 flex justify-between ${isRetro ? 'border-[#553b00]' : 'border-green-800'}`}>
-                      <span>SYSTEM MEMORY</span>
-                      <span className="text-xs opacity-50 animate-pulse">READY</span>
-                  </h3>
-                  
-                  <div className="space-y-3 mb-6">
-                    {saveSlots.map((slot, i) => (
-                        <div key={i} className={`p-3 border flex flex-col gap-2 ${
-                            slot 
-                            ? (isRetro ? 'border-[#553b00] bg-[#221500]' : 'border-gray-700 bg-gray-800')
-                            : 'border-dashed border-gray-800 opacity-50 hover:opacity-80 transition-opacity'
-                        }`}>
-                            <div className="flex justify-between items-start">
-                                <div className="text-xs font-mono uppercase tracking-widest opacity-50">Slot {i + 1}</div>
-                                {slot && (
-                                    <div className={`text-[10px] font-bold ${isRetro ? 'text-[#ffb000]' : 'text-green-400'}`}>
-                                        {new Date(slot.timestamp).toLocaleString()}
-                                    </div>
-                                )}
-                            </div>
-                            
-                            {slot ? (
-                                <div className="text-xs opacity-80 font-sans truncate py-1">
-                                    {slot.summary}
-                                </div>
-                            ) : (
-                                <div className="text-xs text-center py-2 italic opacity-30">Empty Data Block</div>
-                            )}
-
-                            <div className="flex gap-2 mt-1">
-                                <button 
-                                    onClick={() => handleSave(i)}
-                                    className={`flex-1 py-1 text-[10px] font-bold border uppercase transition-colors ${
-                                        isRetro 
-                                        ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' 
-                                        : 'border-green-600 hover:bg-green-600 hover:text-black'
-                                    }`}
-                                >
-                                    SAVE
-                                </button>
-                                {slot && (
-                                    <>
-                                        <button 
-                                            onClick={() => handleLoad(i)}
-                                            className={`flex-1 py-1 text-[10px] font-bold border uppercase transition-colors ${
-                                                isRetro 
-                                                ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' 
-                                                : 'border-blue-500 text-blue-400 hover:bg-blue-500 hover:text-black'
-                                            }`}
-                                        >
-                                            LOAD
-                                        </button>
-                                        <button 
-                                            onClick={(e) => handleDeleteSave(i, e)}
-                                            className="px-2 py-1 text-[10px] font-bold border border-red-900 text-red-700 hover:bg-red-900 hover:text-white uppercase transition-colors"
-                                        >
-                                            DEL
-                                        </button>
-                                    </>
-                                )}
-                            </div>
-                        </div>
-                    ))}
-                  </div>
-
-                  <button 
-                    onClick={() => setIsSystemMenuOpen(false)}
-                    className={`w-full py-3 text-xs font-bold border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#ffb000]' : 'border-green-600'}`}
-                  >
-                      Close System
-                  </button>
-              </div>
-          </div>
-      )}
+      {isSystemMenuOpen && renderSaveManager(true)}
 
       {/* TAG INSPECTION MODAL */}
       {inspectedTag && (
@@ -799,7 +1618,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     onClick={() => setInspectedTag(null)}
                     className={`mt-6 w-full py-2 text-xs font-bold border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#ffb000]' : 'border-green-600'}`}
                   >
-                      Close Data
+                      {t('tag.close')}
                   </button>
               </div>
           </div>
@@ -823,31 +1642,104 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
             isRetro ? 'text-[#ffb000] border-[#553b00]' : 'text-red-600 border-red-900'
         }`}>
             <span>SEOUL FALLOUT</span>
-            <span className="text-[10px] font-mono opacity-60">ACTIVE</span>
+            <span className="text-[10px] font-mono opacity-60">{t('hud.active')}</span>
         </h1>
 
+        {/* Sidebar tabs */}
+        <div className="flex gap-1 mb-4 text-[10px] font-mono uppercase">
+            {(['hud', 'journal', 'codex', 'craft'] as const).map(tab => (
+                <button
+                    key={tab}
+                    onClick={() => setSidebarTab(tab)}
+                    className={`flex-1 py-1 border ${sidebarTab === tab
+                        ? (isRetro ? 'border-[#ffb000] text-[#ffb000]' : 'border-red-700 text-red-500')
+                        : (isRetro ? 'border-[#332200] opacity-50' : 'border-gray-800 opacity-50')}`}
+                >
+                    {tab === 'codex' ? t('sidebar.codex', { count: codex.length })
+                        : tab === 'journal' ? t('sidebar.journal', { count: journal.filter(q => q.status === 'active').length })
+                        : tab === 'craft' ? t('sidebar.craft', { count: recipeBook.filter(r => r.craftable).length })
+                        : t('sidebar.hud')}
+                </button>
+            ))}
+        </div>
+
         <div className="flex-1 space-y-6 font-mono text-sm flex flex-col">
+            {sidebarTab === 'journal' && <QuestJournal quests={journal} isRetro={isRetro} t={t} />}
+            {sidebarTab === 'codex' && <CodexPanel entries={codex} isRetro={isRetro} t={t} />}
+            {sidebarTab === 'craft' && (
+                <CraftingPanel
+                    book={recipeBook}
+                    importedCount={customRecipes.length}
+                    disabled={isLoading}
+                    isRetro={isRetro}
+                    t={t}
+                    onCraft={handleCraft}
+                    onImport={handleImportRecipes}
+                    onClearImported={handleClearRecipes}
+                />
+            )}
+
+            {sidebarTab === 'hud' && (<>
             {/* HP / Mental Group - Vertical Stack (2 Lines) */}
             <div className="space-y-2">
-                <div className={`px-3 py-2 border rounded flex justify-between items-center ${isRetro ? 'bg-[#221500] border-[#442b00]' : 'bg-gray-900 border-gray-800'}`}>
-                     <span className={`text-[10px] font-bold opacity-70 ${isRetro ? 'text-[#ffb000]' : 'text-red-500'}`}>HP</span>
-                     <span className={`font-mono text-sm font-bold ${isRetro ? '' : 'text-red-400'}`}>{gameState.hp || '---'}</span>
-                </div>
-                <div className={`px-3 py-2 border rounded flex justify-between items-center ${isRetro ? 'bg-[#221500] border-[#442b00]' : 'bg-gray-900 border-gray-800'}`}>
-                     <span className={`text-[10px] font-bold opacity-70 ${isRetro ? 'text-[#ffb000]' : 'text-blue-500'}`}>MENTAL</span>
-                     <span className={`font-mono text-sm font-bold ${isRetro ? '' : 'text-blue-400'}`}>{gameState.mental || '---'}</span>
-                </div>
+                <StatGauge
+                    label={t('hud.hp')}
+                    value={gameState.hp || ''}
+                    level={gameState.hpLevel}
+                    previousLevel={prevGameState.hpLevel}
+                    barClass="bg-red-600"
+                    labelClass={isRetro ? 'text-[#ffb000]' : 'text-red-500'}
+                    valueClass={isRetro ? '' : 'text-red-400'}
+                    isRetro={isRetro}
+                />
+                <StatGauge
+                    label={t('hud.mental')}
+                    value={gameState.mental || ''}
+                    level={gameState.mentalLevel}
+                    previousLevel={prevGameState.mentalLevel}
+                    barClass="bg-blue-600"
+                    labelClass={isRetro ? 'text-[#ffb000]' : 'text-blue-500'}
+                    valueClass={isRetro ? '' : 'text-blue-400'}
+                    isRetro={isRetro}
+                />
             </div>
 
             {/* Stats */}
             <div className={`p-3 border rounded ${isRetro ? 'bg-[#221500] border-[#442b00]' : 'bg-gray-900 border-gray-800'}`}>
-                <div className={`text-xs uppercase mb-2 ${accentColor}`}>Parameters</div>
-                <div className="opacity-80 whitespace-pre-wrap">{gameState.stats || 'Analyzing subject...'}</div>
+                <div className={`text-xs uppercase mb-2 ${accentColor}`}>{t('hud.parameters')}</div>
+                {gameState.statValues && Object.keys(gameState.statValues).length > 0 ? (
+                    <div className="space-y-1">
+                        {STAT_ROWS.map(({ key, labelKey }) => {
+                            const value = gameState.statValues?.[key];
+                            if (value === undefined) return null;
+                            return (
+                                <div key={key} className="flex items-center gap-2 text-xs">
+                                    <span className="w-16 opacity-70">{t(labelKey)}</span>
+                                    <div className="flex gap-0.5 flex-1">
+                                        {Array.from({ length: Math.max(STAT_PIPS, value) }).map((_, i) => (
+                                            <span key={i} className={`h-2 flex-1 ${
+                                                i < value
+                                                    ? (isRetro ? 'bg-[#ffb000]' : 'bg-green-500')
+                                                    : (isRetro ? 'bg-[#332200]' : 'bg-gray-800')
+                                            }`}></span>
+                                        ))}
+                                    </div>
+                                    <span className="w-10 text-right font-bold">
+                                        {value}
+                                        <DeltaIndicator current={value} previous={prevGameState.statValues?.[key]} />
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <div className="opacity-80 whitespace-pre-wrap">{gameState.stats || t('hud.analyzing')}</div>
+                )}
             </div>
 
             {/* Tags */}
             <div className="space-y-2">
-                <div className={`text-xs uppercase ${accentColor}`}>Tags</div>
+                <div className={`text-xs uppercase ${accentColor}`}>{t('hud.tags')}</div>
                 <div className="flex flex-wrap gap-2">
                     {gameState.tags && gameState.tags.length > 0 ? (
                         gameState.tags.map((tag, i) => (
@@ -863,26 +1755,119 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                             </button>
                         ))
                     ) : (
-                        <span className="opacity-50 italic">None</span>
+                        <span className="opacity-50 italic">{t('hud.none')}</span>
                     )}
                 </div>
             </div>
 
-            {/* Equipment */}
+            {/* Status effects (tracked across turns) */}
+            <div className="space-y-2">
+                <div className={`text-xs uppercase ${accentColor}`}>{t('status.title')}</div>
+                <StatusEffectList
+                    effects={statusTimeline.current}
+                    previous={statusTimeline.previous}
+                    turn={messages.filter(m => m.role === 'user').length}
+                    language={language}
+                    isRetro={isRetro}
+                    t={t}
+                />
+            </div>
+
+            {/* Equipment (inventory parsed from the [장비] line) */}
             <div className="space-y-1">
-                 <div className={`text-xs uppercase ${accentColor}`}>Equipment</div>
-                 <div className={`text-xs leading-relaxed border-l-2 pl-2 opacity-80 ${isRetro ? 'border-[#553b00]' : 'border-gray-800'}`}>
-                    {gameState.equipment || 'Empty'}
-                 </div>
+                 <div className={`text-xs uppercase ${accentColor}`}>{t('hud.equipment')}</div>
+                 {inventory.length === 0 ? (
+                     <div className={`text-xs leading-relaxed border-l-2 pl-2 opacity-80 ${isRetro ? 'border-[#553b00]' : 'border-gray-800'}`}>
+                        {gameState.equipment || t('hud.empty')}
+                     </div>
+                 ) : (
+                     <div className={`border-l-2 pl-2 space-y-1 ${isRetro ? 'border-[#553b00]' : 'border-gray-800'}`}>
+                        {inventory.map((item, idx) => {
+                            const unexpected = inventoryFlags?.appeared.includes(item.name);
+                            const isOpen = expandedItem === item.name;
+                            return (
+                                <div key={`${item.name}-${idx}`} className="text-xs">
+                                    <button
+                                        onClick={() => setExpandedItem(isOpen ? null : item.name)}
+                                        className="w-full flex items-baseline gap-2 text-left opacity-80 hover:opacity-100"
+                                    >
+                                        <span className="text-[9px] uppercase opacity-50 w-10 shrink-0">{t(`inventory.category.${item.category}` as TranslationKey)}</span>
+                                        <span className="flex-1">
+                                            {item.name}
+                                            {item.quantity > 1 && <span className="opacity-60"> ×{item.quantity}</span>}
+                                            {item.condition && <span className="opacity-50 text-[10px]"> ({item.condition})</span>}
+                                        </span>
+                                        {unexpected && (
+                                            <span title={t('inventory.appearedHint')} className="text-[10px] text-yellow-500">⚠</span>
+                                        )}
+                                    </button>
+                                    {isOpen && (
+                                        <div className="flex gap-2 mt-1 ml-12">
+                                            {(['use', 'drop', 'inspect'] as const).map(action => (
+                                                <button
+                                                    key={action}
+                                                    onClick={() => handleItemAction(action, item)}
+                                                    disabled={isLoading}
+                                                    className={`px-1.5 py-0.5 text-[10px] border uppercase disabled:opacity-30 ${
+                                                        isRetro ? 'border-[#553b00] hover:bg-[#ffb000] hover:text-black' : 'border-gray-700 hover:border-green-600 hover:text-green-400'
+                                                    }`}
+                                                >
+                                                    {t(`inventory.${action}` as TranslationKey)}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {inventoryFlags && inventoryFlags.vanished.length > 0 && (
+                            <div className="text-[10px] text-yellow-600 opacity-80" title={t('inventory.vanishedHint')}>
+                                ⚠ {t('inventory.vanished', { items: inventoryFlags.vanished.join(', ') })}
+                            </div>
+                        )}
+                     </div>
+                 )}
+            </div>
+
+            {/* Map (districts from the [위치] line) */}
+            <div className="space-y-1">
+                <button
+                    onClick={() => setIsMapOpen(prev => !prev)}
+                    className={`w-full flex justify-between text-xs uppercase ${accentColor}`}
+                >
+                    <span>{t('map.title')}</span>
+                    <span className="opacity-60 normal-case truncate ml-2">{isKnownLocation(gameState.location) ? gameState.location : t('map.unknown')}</span>
+                </button>
+                {isMapOpen && (
+                    <SeoulMap
+                        visits={locations}
+                        current={isKnownLocation(gameState.location) ? gameState.location.trim() : null}
+                        language={language}
+                        isRetro={isRetro}
+                        riverLabel={t('map.river')}
+                        emptyLabel={t('map.noVisits')}
+                    />
+                )}
             </div>
 
              {/* Notes */}
              <div className={`pt-4 border-t mt-auto ${isRetro ? 'border-[#332200]' : 'border-gray-800'}`}>
-                 <div className={`text-xs uppercase mb-1 ${isRetro ? 'text-[#cc8800]' : 'text-yellow-700'}`}>Log Data</div>
+                 <div className={`text-xs uppercase mb-1 ${isRetro ? 'text-[#cc8800]' : 'text-yellow-700'}`}>{t('hud.log')}</div>
                  <div className={`text-xs italic opacity-80 ${isRetro ? 'text-[#ffb000]' : 'text-yellow-500'}`}>
-                    {gameState.notes || 'No critical updates.'}
+                    {gameState.notes || t('hud.noUpdates')}
                  </div>
             </div>
+            </>)}
+
+            {/* Run seed (share code) */}
+            {runSeed && (
+                <div className="flex justify-between items-center text-[10px] font-mono opacity-60">
+                    <span>{t('seed.current', { seed: runSeed })}</span>
+                    <button onClick={handleCopySeed} className={`hover:opacity-100 ${accentColor}`}>
+                        {t('seed.copy')}
+                    </button>
+                </div>
+            )}
 
             {/* System Menu Button */}
             <button
@@ -893,36 +1878,36 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     : 'border-green-600 text-green-500 hover:bg-green-600 hover:text-black'
                 }`}
             >
-                [ SYSTEM MENU ]
+                {t('menu.system')}
             </button>
 
             {/* Visual Settings */}
             <div className={`pt-4 border-t ${isRetro ? 'border-[#332200]' : 'border-gray-800'}`}>
-                <div className="text-xs opacity-60 uppercase mb-3">System Config</div>
+                <div className="text-xs opacity-60 uppercase mb-3">{t('config.title')}</div>
                 
                 {/* Font Style */}
                 <div className="mb-4">
-                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">Visual Mode</div>
+                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">{t('config.visualMode')}</div>
                     <div className="flex gap-1">
-                        <button onClick={() => updateSettings({ fontStyle: 'style-digital' })} className={getButtonClass(visualSettings.fontStyle === 'style-digital')}>Digital</button>
-                        <button onClick={() => updateSettings({ fontStyle: 'style-clean' })} className={getButtonClass(visualSettings.fontStyle === 'style-clean')}>Clean</button>
-                        <button onClick={() => updateSettings({ fontStyle: 'style-retro' })} className={getButtonClass(visualSettings.fontStyle === 'style-retro')}>Retro</button>
+                        <button onClick={() => updateSettings({ fontStyle: 'style-digital' })} className={getButtonClass(visualSettings.fontStyle === 'style-digital')}>{t('config.digital')}</button>
+                        <button onClick={() => updateSettings({ fontStyle: 'style-clean' })} className={getButtonClass(visualSettings.fontStyle === 'style-clean')}>{t('config.clean')}</button>
+                        <button onClick={() => updateSettings({ fontStyle: 'style-retro' })} className={getButtonClass(visualSettings.fontStyle === 'style-retro')}>{t('config.retro')}</button>
                     </div>
                 </div>
 
                 {/* Font Face */}
                 <div className="mb-4">
-                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">Typeface</div>
+                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">{t('config.typeface')}</div>
                     <div className="flex gap-1">
-                        <button onClick={() => updateSettings({ fontFamily: 'font-sans' })} className={getButtonClass(visualSettings.fontFamily === 'font-sans')}>Sans</button>
-                        <button onClick={() => updateSettings({ fontFamily: 'font-serif' })} className={getButtonClass(visualSettings.fontFamily === 'font-serif')}>Serif</button>
-                        <button onClick={() => updateSettings({ fontFamily: 'font-mono' })} className={getButtonClass(visualSettings.fontFamily === 'font-mono')}>Mono</button>
+                        <button onClick={() => updateSettings({ fontFamily: 'font-sans' })} className={getButtonClass(visualSettings.fontFamily === 'font-sans')}>{t('config.sans')}</button>
+                        <button onClick={() => updateSettings({ fontFamily: 'font-serif' })} className={getButtonClass(visualSettings.fontFamily === 'font-serif')}>{t('config.serif')}</button>
+                        <button onClick={() => updateSettings({ fontFamily: 'font-mono' })} className={getButtonClass(visualSettings.fontFamily === 'font-mono')}>{t('config.mono')}</button>
                     </div>
                 </div>
 
                 {/* Font Size */}
                 <div>
-                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">Text Size</div>
+                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">{t('config.textSize')}</div>
                     <div className="flex gap-1">
                         <button onClick={() => updateSettings({ fontSize: 'text-sm' })} className={getButtonClass(visualSettings.fontSize === 'text-sm')}>S</button>
                         <button onClick={() => updateSettings({ fontSize: 'text-base' })} className={getButtonClass(visualSettings.fontSize === 'text-base')}>M</button>
@@ -930,6 +1915,59 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                         <button onClick={() => updateSettings({ fontSize: 'text-xl' })} className={getButtonClass(visualSettings.fontSize === 'text-xl')}>XL</button>
                     </div>
                 </div>
+
+                {/* Hardcore */}
+                <div className="mt-4">
+                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">{t('config.rewind')}</div>
+                    <div className="flex gap-1">
+                        <button onClick={() => updateSettings({ hardcore: false })} className={getButtonClass(!visualSettings.hardcore)}>{t('config.allowed')}</button>
+                        <button onClick={() => updateSettings({ hardcore: true })} className={getButtonClass(visualSettings.hardcore)}>{t('config.hardcore')}</button>
+                    </div>
+                    <div className="text-[10px] opacity-40 mt-1">{t('config.rewindHint')}</div>
+                </div>
+
+                {/* Language (UI only; the GM language is set before a run) */}
+                <div className="mt-4">
+                    <div className="text-[10px] opacity-50 mb-1 uppercase tracking-wider">{t('config.language')}</div>
+                    <div className="flex gap-1">
+                        {LANGUAGES.map(lang => (
+                            <button key={lang.id} onClick={() => onLanguageChange(lang.id)} className={getButtonClass(language === lang.id)}>{lang.label}</button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Context Memory (debug) */}
+            <div className={`pt-4 mt-4 border-t ${isRetro ? 'border-[#332200]' : 'border-gray-800'}`}>
+                <button
+                    onClick={() => setIsMemoryPanelOpen(prev => !prev)}
+                    className="w-full flex justify-between text-xs opacity-60 uppercase hover:opacity-100"
+                >
+                    <span>{t('memory.title')}</span>
+                    <span>{isMemoryPanelOpen ? '▲' : '▼'}</span>
+                </button>
+                {isMemoryPanelOpen && (
+                    <div className="mt-3 space-y-2 text-[10px] font-mono">
+                        <div className="flex justify-between"><span className="opacity-50">{t('memory.fullHistory')}</span><span>~{estimateHistoryTokens(messages)} tok</span></div>
+                        <div className="flex justify-between"><span className="opacity-50">{t('memory.sentContext')}</span><span>~{estimateHistoryTokens(buildContextHistory(messages, memory))} tok</span></div>
+                        <div className="flex justify-between"><span className="opacity-50">{t('memory.summary')}</span><span>~{memory ? estimateTokens(describeMemory(memory)) : 0} tok</span></div>
+                        <div className="flex justify-between"><span className="opacity-50">{t('memory.summarized')}</span><span>{t('memory.messages', { covered: memory ? memory.summarizedCount : 0, total: messages.length })}</span></div>
+                        {memory ? (
+                            <div className={`whitespace-pre-wrap leading-relaxed border-l-2 pl-2 opacity-80 max-h-48 overflow-y-auto ${isRetro ? 'border-[#553b00]' : 'border-gray-800'}`}>
+                                {describeMemory(memory)}
+                            </div>
+                        ) : (
+                            <div className="opacity-50 italic">{t('memory.none')}</div>
+                        )}
+                        <button
+                            onClick={compressMemory}
+                            disabled={isLoading || getCompressionCutoff(messages) <= (memory ? memory.summarizedCount : 0)}
+                            className={`${getButtonClass(false)} w-full disabled:opacity-30`}
+                        >
+                            {t('memory.compress')}
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
       </div>
@@ -950,15 +1988,81 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                             <div className={`whitespace-pre-wrap leading-relaxed ${visualSettings.fontFamily} ${visualSettings.fontSize}`}>
                                 {msg.content}
                             </div>
+                            {msg.protocolIssues && msg.protocolIssues.length > 0 && (
+                                <div className="mt-2 text-[10px] font-mono text-yellow-600 opacity-70">
+                                    [PROTOCOL] {msg.protocolIssues.join(' / ')}
+                                </div>
+                            )}
+                            {msg.inventoryFlags && (
+                                <div className="mt-2 text-[10px] font-mono text-yellow-600 opacity-70">
+                                    {t('inventory.mismatch', {
+                                        appeared: msg.inventoryFlags.appeared.join(', ') || '-',
+                                        vanished: msg.inventoryFlags.vanished.join(', ') || '-',
+                                    })}
+                                </div>
+                            )}
+                            {/* Reroll controls (latest GM turn only) */}
+                            {idx === messages.length - 1 && !isLoading && (
+                                <div className="mt-2 flex items-center gap-3 text-[10px] font-mono opacity-50 hover:opacity-100 transition-opacity">
+                                    {msg.alternatives && msg.alternatives.length > 1 && (
+                                        <span className="inline-flex items-center gap-1">
+                                            <button
+                                                onClick={() => handleSelectAlternative((msg.alternativeIndex ?? 0) - 1)}
+                                                disabled={(msg.alternativeIndex ?? 0) <= 0}
+                                                className="px-1 disabled:opacity-30"
+                                            >
+                                                ◀
+                                            </button>
+                                            <span>{(msg.alternativeIndex ?? 0) + 1} / {msg.alternatives.length}</span>
+                                            <button
+                                                onClick={() => handleSelectAlternative((msg.alternativeIndex ?? 0) + 1)}
+                                                disabled={(msg.alternativeIndex ?? 0) >= msg.alternatives.length - 1}
+                                                className="px-1 disabled:opacity-30"
+                                            >
+                                                ▶
+                                            </button>
+                                        </span>
+                                    )}
+                                    <button onClick={handleReroll} className={`${accentColor} hover:underline`}>
+                                        {t('chat.reroll')}
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     )}
                     {msg.role === 'user' && (
-                        <div className={`inline-block border px-4 py-2 rounded-sm font-mono text-sm ${
-                            isRetro
-                                ? 'bg-[#332200] border-[#553b00] text-[#ffb000]'
-                                : 'bg-gray-900 border-gray-700 text-gray-200'
+                        <div className="group inline-flex items-center gap-2">
+                            {!runHardcore && !isLoading && (
+                                <button
+                                    onClick={() => handleRewind(idx)}
+                                    title={t('chat.rewindHint')}
+                                    className={`opacity-0 group-hover:opacity-60 hover:!opacity-100 text-[10px] font-mono transition-opacity ${accentColor}`}
+                                >
+                                    {t('chat.rewind')}
+                                </button>
+                            )}
+                            <div className={`inline-block border px-4 py-2 rounded-sm font-mono text-sm ${
+                                isRetro
+                                    ? 'bg-[#332200] border-[#553b00] text-[#ffb000]'
+                                    : 'bg-gray-900 border-gray-700 text-gray-200'
+                            }`}>
+                                {`> ${msg.content}`}
+                            </div>
+                        </div>
+                    )}
+                    {msg.role === 'user' && msg.check && (
+                        <div className={`mt-1 text-[10px] font-mono ${
+                            msg.check.outcome.endsWith('success')
+                                ? (isRetro ? 'text-[#ffcc00]' : 'text-green-400')
+                                : (isRetro ? 'text-[#886600]' : 'text-red-400')
                         }`}>
-                            {`> ${msg.content}`}
+                            {t('check.line', {
+                                skill: msg.check.skill ?? t('check.general'),
+                                modifier: formatModifier(msg.check.modifier),
+                                roll: msg.check.roll,
+                                dc: msg.check.dc,
+                                outcome: t(`check.${msg.check.outcome}` as TranslationKey),
+                            })}
                         </div>
                     )}
                      {msg.role === 'system' && (
@@ -970,7 +2074,21 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                     )}
                 </div>
             ))}
-            {isLoading && (
+            {streamingText && getStreamingPreview(streamingText) && (
+                <div className="max-w-3xl mx-auto text-left">
+                    <div className={`prose prose-invert max-w-none ${
+                        isRetro 
+                            ? 'prose-p:text-[#ffb000] prose-headings:text-[#ffb000] prose-strong:text-[#ffcc00]' 
+                            : 'prose-p:text-gray-300 prose-headings:text-red-500 prose-strong:text-white'
+                    }`}>
+                        <div className={`whitespace-pre-wrap leading-relaxed ${visualSettings.fontFamily} ${visualSettings.fontSize}`}>
+                            {getStreamingPreview(streamingText)}
+                            <span className={`inline-block w-2 h-4 ml-1 align-middle animate-pulse ${isRetro ? 'bg-[#ffb000]' : 'bg-green-500'}`}></span>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {isLoading && !(streamingText && getStreamingPreview(streamingText)) && (
                 <div className="max-w-3xl mx-auto">
                     <span className="inline-flex gap-1">
                         <span className={`w-2 h-2 animate-bounce ${isRetro ? 'bg-[#ffb000]' : 'bg-green-500'}`}></span>
@@ -986,14 +2104,52 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
         <div className={`p-4 border-t z-20 ${
             isRetro ? 'bg-[#1a1000] border-[#332200]' : 'bg-black border-gray-800'
         }`}>
+            {/* Action Bar (choices from the latest GM turn) */}
+            {activeChoices.length > 0 && (
+                <div className="max-w-3xl mx-auto mb-3 grid grid-cols-1 gap-1">
+                    {activeChoices.map((choice, i) => {
+                        const numMatch = choice.match(/^(\d+)\.\s*(.*)$/);
+                        const num = numMatch ? numMatch[1] : String(i + 1);
+                        const label = numMatch ? numMatch[2] : choice;
+                        return (
+                            <button
+                                key={i}
+                                onClick={() => handleChoiceSelect(choice)}
+                                disabled={isLoading}
+                                className={`flex items-start gap-2 px-3 py-2 text-left text-xs font-mono border transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                                    isRetro
+                                        ? 'border-[#553b00] text-[#ffb000] hover:bg-[#ffb000]/10 hover:border-[#ffb000]'
+                                        : 'border-gray-800 text-gray-300 hover:bg-green-900/20 hover:border-green-600'
+                                }`}
+                            >
+                                <span className={`shrink-0 px-1 border ${isRetro ? 'border-[#ffb000]' : 'border-green-700 text-green-500'}`}>{num}</span>
+                                <span className="flex-1">{label}</span>
+                            </button>
+                        );
+                    })}
+                    <button
+                        onClick={handleFreeAction}
+                        disabled={isLoading}
+                        className={`flex items-start gap-2 px-3 py-2 text-left text-xs font-mono border border-dashed transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                            isRetro
+                                ? 'border-[#553b00] text-[#cc8800] hover:border-[#ffb000]'
+                                : 'border-gray-800 text-gray-500 hover:border-green-600 hover:text-green-400'
+                        }`}
+                    >
+                        <span className="shrink-0 px-1 border border-current">0</span>
+                        <span className="flex-1">{t('chat.freeAction')}</span>
+                    </button>
+                </div>
+            )}
             <form onSubmit={handleSubmit} className="max-w-3xl mx-auto flex gap-2">
                 <div className="relative flex-1 group">
                     <span className={`absolute left-3 top-1/2 -translate-y-1/2 font-mono text-lg animate-pulse ${accentColor}`}>{'>'}</span>
                     <input 
+                        ref={inputRef}
                         type="text" 
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
-                        placeholder="What do you do?"
+                        placeholder={t('chat.placeholder')}
                         className={`w-full py-3 pl-8 pr-4 font-mono focus:outline-none focus:ring-1 transition-all ${
                             isRetro
                                 ? 'bg-[#221500] border border-[#442b00] text-[#ffb000] placeholder-[#cc8800] focus:border-[#ffb000] focus:ring-[#ffb000]/50'
@@ -1002,6 +2158,15 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                         disabled={isLoading}
                     />
                 </div>
+                {streamingText !== null ? (
+                <button 
+                    type="button" 
+                    onClick={handleStopGenerating}
+                    className="px-6 py-2 font-mono transition-all uppercase text-sm tracking-widest border border-red-800 text-red-500 bg-red-900/10 hover:bg-red-900/30 hover:border-red-500"
+                >
+                    {t('chat.stop')}
+                </button>
+                ) : (
                 <button 
                     type="submit" 
                     disabled={isLoading || !input.trim()}
@@ -1011,11 +2176,12 @@ const GameInterface: React.FC<GameInterfaceProps> = ({ apiKey }) => {
                             : 'bg-gray-900 border-gray-700 text-green-500 hover:bg-green-900/20 hover:border-green-500'
                     }`}
                 >
-                    Act
+                    {t('chat.act')}
                 </button>
+                )}
             </form>
             <div className="max-w-3xl mx-auto mt-2 text-center text-xs opacity-50 font-mono">
-                PROJECT: SEOUL FALLOUT | PROTOTYPE BUILD
+                {t('chat.footer')}
             </div>
         </div>
       </div>
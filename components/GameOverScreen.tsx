@@ -0,0 +1,121 @@
+import React from 'react';
+import { RunEndInfo } from '../types';
+import { Translator } from '../utils/i18n';
+
+interface GameOverScreenProps {
+  runEnd: RunEndInfo;
+  turnsSurvived: number;
+  perksEarned: string[];
+  objectivesCompleted: string[];
+  isRetro: boolean;
+  t: Translator;
+  containerClasses: string;
+  showCrt: boolean;
+  onRestart: () => void;
+  onReturnToTitle: () => void;
+}
+
+const GameOverScreen: React.FC<GameOverScreenProps> = ({
+  runEnd, turnsSurvived, perksEarned, objectivesCompleted, isRetro, t, containerClasses, showCrt, onRestart, onReturnToTitle
+}) => {
+  const isDeath = runEnd.outcome === 'death';
+  const headline = isDeath ? t('gameOver.signalLost') : t('gameOver.complete');
+  const headlineColor = isRetro ? 'text-[#ffb000]' : (isDeath ? 'text-red-600' : 'text-green-500');
+  const borderColor = isRetro ? 'border-[#553b00]' : (isDeath ? 'border-red-900' : 'border-green-900');
+
+  return (
+    <div className={`h-screen w-full flex flex-col items-center justify-center p-6 relative overflow-hidden ${containerClasses}`}>
+      {showCrt && (
+        <div className="fixed inset-0 crt-overlay pointer-events-none z-10"></div>
+      )}
+      <div className={`max-w-2xl w-full border-2 p-6 md:p-8 relative z-20 max-h-[90vh] overflow-y-auto ${borderColor}`}>
+        <h1 className={`text-3xl md:text-5xl font-black tracking-tighter mb-1 text-center glitch-text ${headlineColor}`}>
+          {headline}
+        </h1>
+        <div className="text-center text-xs font-mono opacity-60 mb-6">
+          {isDeath
+            ? t('gameOver.deathRecord')
+            : (runEnd.title ? t('gameOver.endingTitled', { title: runEnd.title }) : t('gameOver.ending'))}
+        </div>
+
+        {/* Run summary */}
+        <div className="grid grid-cols-3 gap-2 mb-6 font-mono text-center">
+          <div className={`p-2 border ${borderColor}`}>
+            <div className="text-[10px] opacity-50 uppercase">{t('gameOver.identCode')}</div>
+            <div className="text-sm font-bold">{runEnd.identCode || '---'}</div>
+          </div>
+          <div className={`p-2 border ${borderColor}`}>
+            <div className="text-[10px] opacity-50 uppercase">{t('gameOver.turns')}</div>
+            <div className="text-sm font-bold">{turnsSurvived}</div>
+          </div>
+          <div className={`p-2 border ${borderColor}`}>
+            <div className="text-[10px] opacity-50 uppercase">{t('gameOver.perks')}</div>
+            <div className="text-sm font-bold">{perksEarned.length}</div>
+          </div>
+        </div>
+
+        {runEnd.cause && (
+          <div className="mb-4 font-mono text-sm">
+            <span className="opacity-50">{t('gameOver.cause')} </span>{runEnd.cause}
+          </div>
+        )}
+
+        <div className={`mb-4 p-4 border border-dashed font-serif text-sm whitespace-pre-wrap leading-relaxed opacity-90 ${borderColor}`}>
+          {runEnd.record || t('gameOver.noRecord')}
+        </div>
+
+        {runEnd.verdict && (
+          <div className="mb-4">
+            <div className={`text-xs font-mono uppercase mb-1 ${isRetro ? 'text-[#cc8800]' : 'text-yellow-700'}`}>{t('common.verdict')}</div>
+            <div className={`text-sm italic whitespace-pre-wrap ${isRetro ? 'text-[#ffb000]' : 'text-yellow-500'}`}>{runEnd.verdict}</div>
+          </div>
+        )}
+
+        {objectivesCompleted.length > 0 && (
+          <div className="mb-4">
+            <div className="text-xs font-mono uppercase mb-2 opacity-60">{t('gameOver.objectives')}</div>
+            <ul className="text-sm font-mono space-y-0.5">
+              {objectivesCompleted.map(name => <li key={name}>✓ {name}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {perksEarned.length > 0 && (
+          <div className="mb-6">
+            <div className="text-xs font-mono uppercase mb-2 opacity-60">{t('gameOver.legacy')}</div>
+            <div className="flex flex-wrap gap-2">
+              {perksEarned.map(perk => (
+                <span key={perk} className={`px-2 py-1 border text-xs font-mono ${
+                  isRetro ? 'border-[#ffb000] text-[#ffb000]' : 'border-blue-500 text-blue-400'
+                }`}>
+                  {perk}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <button
+            onClick={onRestart}
+            className={`w-full py-3 font-mono font-bold tracking-widest border transition-all hover:bg-opacity-20 ${
+              isRetro
+                ? 'border-[#ffb000] text-[#ffb000] hover:bg-[#ffb000]'
+                : 'border-green-600 text-green-500 hover:bg-green-500'
+            }`}
+          >
+            {t('gameOver.newSimulation')}
+          </button>
+          <button
+            onClick={onReturnToTitle}
+            className="w-full text-center text-xs font-mono opacity-30 hover:opacity-100 transition-opacity py-2"
+          >
+            {t('common.returnToTitle')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameOverScreen;
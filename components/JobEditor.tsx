@@ -0,0 +1,314 @@
+import React, { useRef, useState } from 'react';
+import { JobDefinition, StatRange, StatValues } from '../types';
+import { JOB_STAT_MAX, JOB_STAT_MIN, createBlankJob, createJobExport, createJobId, duplicateJob, isBuiltinJob, parseJobImport, validateJobDefinition } from '../utils/jobs';
+import { Translator, describeIssues } from '../utils/i18n';
+import { downloadJson } from '../utils/saveFormat';
+import ConfirmDialog from './ConfirmDialog';
+
+interface JobEditorProps {
+  builtinJobs: JobDefinition[];
+  customJobs: JobDefinition[];
+  isRetro: boolean;
+  t: Translator;
+  onSave: (jobs: JobDefinition[]) => Promise<boolean>; // full custom list; false when storage failed
+  onClose: () => void;
+}
+
+// Tags and equipment are edited as free text and split on save, so typing a separator doesn't get eaten
+interface Draft {
+  job: JobDefinition;
+  tagsText: string;
+  equipmentText: string;
+}
+
+const STATS: (keyof StatValues)[] = ['physical', 'survival', 'charisma'];
+
+const toDraft = (job: JobDefinition): Draft => ({
+  job: structuredClone(job),
+  tagsText: job.startingTags.join(', '),
+  equipmentText: job.equipmentPool.join('\n'),
+});
+
+const fromDraft = (draft: Draft): JobDefinition => ({
+  ...draft.job,
+  startingTags: draft.tagsText.split(',').map(t => t.trim()).filter(Boolean),
+  equipmentPool: draft.equipmentText.split('\n').map(t => t.trim()).filter(Boolean),
+});
+
+const JobEditor: React.FC<JobEditorProps> = ({ builtinJobs, customJobs, isRetro, t, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [pasteText, setPasteText] = useState('');
+  const [importErrors, setImportErrors] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<JobDefinition | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const accentColor = isRetro ? 'text-[#ffb000]' : 'text-green-400';
+  const cardClass = isRetro ? 'border-[#553b00] bg-[#221500]' : 'border-gray-700 bg-gray-800';
+  const inputClass = `px-2 py-1 text-xs font-mono bg-black border focus:outline-none ${isRetro ? 'border-[#553b00] placeholder-[#886600]' : 'border-gray-700 focus:border-green-600'}`;
+  const smallButton = `px-2 py-1 text-[10px] font-bold border uppercase transition-colors`;
+  const neutralButton = `${smallButton} ${isRetro ? 'border-[#553b00] hover:bg-[#ffb000] hover:text-black' : 'border-gray-600 text-gray-400 hover:bg-gray-600 hover:text-black'}`;
+  const primaryButton = `${smallButton} ${isRetro ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' : 'border-green-600 hover:bg-green-600 hover:text-black'}`;
+
+  const report = draft ? validateJobDefinition(fromDraft(draft)) : null;
+
+  const showNotice = (text: string) => {
+    setNotice(text);
+    setTimeout(() => setNotice(null), 2000);
+  };
+
+  const updateJob = (patch: Partial<JobDefinition>) => {
+    setDraft(prev => prev && { ...prev, job: { ...prev.job, ...patch } });
+  };
+
+  const updateRange = (stat: keyof StatValues, index: 0 | 1, value: string) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const range = [...prev.job.statRanges[stat]] as StatRange;
+      range[index] = Number(value);
+      return { ...prev, job: { ...prev.job, statRanges: { ...prev.job.statRanges, [stat]: range } } };
+    });
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !report?.valid) return;
+    const job = fromDraft(draft);
+    const exists = customJobs.some(j => j.id === job.id);
+    const next = exists ? customJobs.map(j => j.id === job.id ? job : j) : [...customJobs, job];
+    if (await onSave(next)) {
+      setDraft(null);
+      showNotice(t('jobEditor.saved', { name: job.name }));
+    }
+  };
+
+  const handleDuplicate = (job: JobDefinition) => {
+    setDraft(toDraft(duplicateJob(job, t('jobEditor.copySuffix'))));
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const target = pendingDelete;
+    setPendingDelete(null);
+    if (await onSave(customJobs.filter(j => j.id !== target.id))) {
+      if (draft?.job.id === target.id) setDraft(null);
+      showNotice(t('jobEditor.deleted', { name: target.name }));
+    }
+  };
+
+  const handleCopy = async (jobs: JobDefinition[]) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(createJobExport(jobs), null, 2));
+      showNotice(t('jobEditor.copied'));
+    } catch (e) {
+      showNotice(t('jobEditor.copyFailed'));
+    }
+  };
+
+  // Same id as an existing custom class overwrites it; built-in ids are re-keyed so they never shadow the originals
+  const importText = async (text: string) => {
+    try {
+      const imported = parseJobImport(text, t).map(job => isBuiltinJob(job) ? { ...job, id: createJobId() } : job);
+      const ids = new Set(imported.map(j => j.id));
+      if (await onSave([...customJobs.filter(j => !ids.has(j.id)), ...imported])) {
+        setImportErrors(null);
+        setPasteText('');
+        showNotice(t('jobEditor.imported', { count: imported.length }));
+      }
+    } catch (e) {
+      setImportErrors(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (file) await importText(await file.text());
+  };
+
+  const renderRow = (job: JobDefinition, builtin: boolean) => (
+    <div key={job.id} className={`p-3 border ${cardClass} ${draft?.job.id === job.id ? 'border-current' : ''}`}>
+      <div className="flex justify-between items-start gap-2">
+        <div className={`text-xs font-bold truncate ${accentColor}`}>{job.name}</div>
+        {builtin && <div className="text-[10px] opacity-40 shrink-0 uppercase">{t('jobEditor.builtin')}</div>}
+      </div>
+      <div className="text-[10px] font-mono opacity-60 mt-1">
+        {job.startingTags.join(' ')} · {STATS.map(stat => `${t(`stat.${stat}`)} ${job.statRanges[stat][0]}-${job.statRanges[stat][1]}`).join(' ')}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {!builtin && (
+          <button onClick={() => setDraft(toDraft(job))} className={`${primaryButton} flex-1`}>{t('jobEditor.edit')}</button>
+        )}
+        <button onClick={() => handleDuplicate(job)} className={`${neutralButton} flex-1`}>{t('jobEditor.duplicate')}</button>
+        <button onClick={() => downloadJson(createJobExport([job]), `seoul-fallout-class-${job.id}.json`)} title={t('jobEditor.exportHint')} className={neutralButton}>{t('jobEditor.export')}</button>
+        {!builtin && (
+          <button onClick={() => setPendingDelete(job)} className={`${smallButton} border-red-900 text-red-700 hover:bg-red-900 hover:text-white`}>{t('jobEditor.delete')}</button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className={`max-w-2xl w-full p-6 border shadow-2xl relative flex flex-col max-h-[90vh] ${isRetro ? 'bg-[#1a1000] border-[#ffb000] text-[#ffb000]' : 'bg-gray-900 border-green-500 text-gray-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className={`text-xl font-bold font-mono mb-4 border-b pb-2 flex justify-between ${isRetro ? 'border-[#553b00]' : 'border-green-800'}`}>
+          <span>{t('jobEditor.title')}</span>
+          <span className="text-xs opacity-50 self-end">{t('jobEditor.customCount', { count: customJobs.length })}</span>
+        </h3>
+
+        <div className="flex-1 overflow-y-auto pr-1 space-y-4">
+          {draft ? (
+            /* Edit form */
+            <div className="space-y-2 font-mono text-xs">
+              <input
+                type="text"
+                value={draft.job.name}
+                onChange={e => updateJob({ name: e.target.value })}
+                placeholder={t('jobEditor.name')}
+                className={`w-full ${inputClass}`}
+              />
+              <textarea
+                value={draft.job.description}
+                onChange={e => updateJob({ description: e.target.value })}
+                placeholder={t('jobEditor.description')}
+                rows={2}
+                className={`w-full resize-none ${inputClass}`}
+              />
+              <input
+                type="text"
+                value={draft.tagsText}
+                onChange={e => setDraft({ ...draft, tagsText: e.target.value })}
+                placeholder={t('jobEditor.tags')}
+                className={`w-full ${inputClass}`}
+              />
+              <div className="grid grid-cols-3 gap-2">
+                {STATS.map(stat => (
+                  <div key={stat} className="flex items-center gap-1">
+                    <span className="text-[10px] opacity-60 w-16 uppercase">{t(`stat.${stat}`)}</span>
+                    {([0, 1] as const).map(index => (
+                      <input
+                        key={index}
+                        type="number"
+                        min={JOB_STAT_MIN}
+                        max={JOB_STAT_MAX}
+                        value={draft.job.statRanges[stat][index]}
+                        onChange={e => updateRange(stat, index, e.target.value)}
+                        className={`w-10 ${inputClass}`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <textarea
+                value={draft.equipmentText}
+                onChange={e => setDraft({ ...draft, equipmentText: e.target.value })}
+                placeholder={t('jobEditor.equipment')}
+                rows={4}
+                className={`w-full resize-none ${inputClass}`}
+              />
+              {report && !report.valid && (
+                <ul className="text-[10px] text-red-500 space-y-0.5">
+                  {describeIssues(report.errors, t).map(err => <li key={err}>! {err}</li>)}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <button onClick={() => setDraft(null)} className={`${neutralButton} flex-1`}>{t('jobEditor.cancel')}</button>
+                <button
+                  onClick={handleSaveDraft}
+                  disabled={!report?.valid}
+                  className={`${primaryButton} flex-1 disabled:opacity-30`}
+                >
+                  {t('jobEditor.save')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setDraft(toDraft(createBlankJob()))} className={`${primaryButton} w-full py-2`}>
+              {t('jobEditor.new')}
+            </button>
+          )}
+
+          {/* Class list */}
+          <div className="space-y-2">
+            {customJobs.length === 0 && (
+              <div className="text-xs text-center py-4 italic opacity-30">{t('jobEditor.empty')}</div>
+            )}
+            {customJobs.map(job => renderRow(job, false))}
+            {builtinJobs.map(job => renderRow(job, true))}
+          </div>
+
+          {/* Import */}
+          <div className="space-y-2">
+            <textarea
+              value={pasteText}
+              onChange={e => setPasteText(e.target.value)}
+              placeholder={t('jobEditor.paste')}
+              rows={3}
+              className={`w-full resize-none text-[10px] ${inputClass}`}
+            />
+            {importErrors && (
+              <div className="text-[10px] font-mono text-red-500 whitespace-pre-wrap">! {importErrors}</div>
+            )}
+          </div>
+        </div>
+
+        {notice && (
+          <div className="mt-4 text-[10px] font-mono text-center opacity-80 animate-pulse">{notice}</div>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportChange}
+          />
+          <button
+            onClick={() => pasteText.trim() ? importText(pasteText) : importInputRef.current?.click()}
+            className={`flex-1 py-2 text-[10px] font-bold font-mono border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#553b00]' : 'border-gray-700 text-gray-400'}`}
+          >
+            {pasteText.trim() ? t('jobEditor.importPasted') : t('jobEditor.importFile')}
+          </button>
+          <button
+            onClick={() => handleCopy(customJobs)}
+            disabled={customJobs.length === 0}
+            className={`flex-1 py-2 text-[10px] font-bold font-mono border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 disabled:opacity-30 ${isRetro ? 'border-[#553b00]' : 'border-gray-700 text-gray-400'}`}
+          >
+            {t('jobEditor.copy')}
+          </button>
+          <button
+            onClick={() => downloadJson(createJobExport(customJobs), 'seoul-fallout-classes.json')}
+            disabled={customJobs.length === 0}
+            className={`flex-1 py-2 text-[10px] font-bold font-mono border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 disabled:opacity-30 ${isRetro ? 'border-[#553b00]' : 'border-gray-700 text-gray-400'}`}
+          >
+            {t('jobEditor.exportAll')}
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className={`mt-4 w-full py-3 text-xs font-bold border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#ffb000]' : 'border-green-600'}`}
+        >
+          {t('jobEditor.close')}
+        </button>
+
+        {pendingDelete && (
+          <ConfirmDialog
+            title={t('jobEditor.deleteTitle')}
+            message={t('jobEditor.deleteMessage', { name: pendingDelete.name })}
+            confirmLabel={t('jobEditor.deleteConfirm')}
+            danger
+            isRetro={isRetro}
+            onConfirm={handleDelete}
+            onCancel={() => setPendingDelete(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobEditor;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { QuestEntry, QuestStatus } from '../types';
+import { TranslationKey, Translator } from '../utils/i18n';
+
+interface QuestJournalProps {
+  quests: QuestEntry[];
+  isRetro: boolean;
+  t: Translator;
+}
+
+const STATUS_MARKS: Record<QuestStatus, string> = {
+  active: '▶',
+  completed: '✓',
+  failed: '✗',
+};
+
+const STATUS_COLORS: Record<QuestStatus, string> = {
+  active: 'text-yellow-500',
+  completed: 'text-green-500',
+  failed: 'text-red-500',
+};
+
+// Sidebar tab listing the run's quests, active ones on top
+const QuestJournal: React.FC<QuestJournalProps> = ({ quests, isRetro, t }) => {
+  if (quests.length === 0) {
+    return <div className="text-xs italic opacity-40">{t('journal.empty')}</div>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {quests.map(quest => (
+        <li
+          key={quest.name}
+          className={`border-l-2 pl-2 text-xs ${isRetro ? 'border-[#553b00]' : 'border-gray-800'} ${quest.status === 'active' ? '' : 'opacity-60'}`}
+        >
+          <div className="flex justify-between items-baseline gap-2">
+            <span className={`font-bold ${quest.status === 'failed' ? 'line-through' : ''}`}>
+              <span className={`mr-1 ${isRetro ? 'text-[#ffb000]' : STATUS_COLORS[quest.status]}`}>{STATUS_MARKS[quest.status]}</span>
+              {quest.name}
+            </span>
+            <span className="shrink-0 text-[9px] uppercase opacity-60">{t(`journal.status.${quest.status}` as TranslationKey)}</span>
+          </div>
+          {quest.objective && <div className="text-[10px] opacity-70 mt-0.5">{quest.objective}</div>}
+          <div className="text-[9px] opacity-40 mt-0.5">
+            {quest.endTurn === null
+              ? t('journal.started', { turn: quest.startTurn })
+              : t('journal.span', { start: quest.startTurn, end: quest.endTurn })}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default QuestJournal;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { RunRecord } from '../types';
+import { Translator } from '../utils/i18n';
+
+interface RunArchiveScreenProps {
+  records: RunRecord[];
+  isRetro: boolean;
+  t: Translator;
+  containerClasses: string;
+  showCrt: boolean;
+  onBack: () => void;
+}
+
+type OutcomeFilter = 'all' | RunRecord['outcome'];
+
+const RunArchiveScreen: React.FC<RunArchiveScreenProps> = ({ records, isRetro, t, containerClasses, showCrt, onBack }) => {
+  const [jobFilter, setJobFilter] = useState<string>('all');
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  const accentColor = isRetro ? 'text-[#ffb000]' : 'text-green-500';
+  const borderColor = isRetro ? 'border-[#553b00]' : 'border-gray-800';
+
+  const jobs = Array.from(new Set(records.map(r => r.job).filter((j): j is string => !!j)));
+
+  const filtered = records
+    .filter(r => jobFilter === 'all' || r.job === jobFilter)
+    .filter(r => outcomeFilter === 'all' || r.outcome === outcomeFilter)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedId(prev => prev === id ? null : id);
+    setShowTranscript(false);
+  };
+
+  const getFilterClass = (isActive: boolean) => {
+    const activeBase = isRetro
+      ? 'border-[#ffb000] text-[#ffb000] bg-[#ffb000]/20'
+      : 'border-green-600 text-green-400 bg-green-900/20';
+    return `px-2 py-1 text-[10px] font-mono border transition-colors ${isActive ? activeBase : 'border-gray-700 text-gray-500 hover:border-gray-500'}`;
+  };
+
+  return (
+    <div className={`h-screen w-full flex flex-col items-center p-6 relative overflow-hidden ${containerClasses}`}>
+      {showCrt && (
+        <div className="fixed inset-0 crt-overlay pointer-events-none z-10"></div>
+      )}
+      <div className="max-w-3xl w-full relative z-20 flex flex-col h-full">
+        <h2 className={`text-2xl font-mono mb-1 text-center ${accentColor}`}>
+          {t('archive.title')}
+        </h2>
+        <div className="text-center text-xs opacity-50 mb-6 font-mono">
+          {t('archive.count', { count: records.length })}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-4 mb-4 font-mono text-xs">
+          <div className="flex items-center gap-1 flex-wrap">
+            <span className="opacity-50 mr-1">{t('archive.job')}</span>
+            <button onClick={() => setJobFilter('all')} className={getFilterClass(jobFilter === 'all')}>{t('archive.all')}</button>
+            {jobs.map(job => (
+              <button key={job} onClick={() => setJobFilter(job)} className={getFilterClass(jobFilter === job)}>{job}</button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="opacity-50 mr-1">{t('archive.outcome')}</span>
+            <button onClick={() => setOutcomeFilter('all')} className={getFilterClass(outcomeFilter === 'all')}>{t('archive.all')}</button>
+            <button onClick={() => setOutcomeFilter('death')} className={getFilterClass(outcomeFilter === 'death')}>{t('archive.death')}</button>
+            <button onClick={() => setOutcomeFilter('ending')} className={getFilterClass(outcomeFilter === 'ending')}>{t('archive.ending')}</button>
+          </div>
+        </div>
+
+        {/* Records */}
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2">
+          {filtered.length === 0 && (
+            <div className="text-center text-xs font-mono opacity-40 py-12">{t('archive.empty')}</div>
+          )}
+          {filtered.map(run => (
+            <div key={run.id} className={`border ${borderColor}`}>
+              <button
+                onClick={() => toggleExpanded(run.id)}
+                className={`w-full p-3 text-left font-mono flex justify-between items-center gap-2 transition-colors ${
+                  isRetro ? 'hover:bg-[#ffb000]/10' : 'hover:bg-gray-900'
+                }`}
+              >
+                <div className="flex-1 overflow-hidden">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className={`font-bold ${run.outcome === 'death' ? (isRetro ? '' : 'text-red-500') : accentColor}`}>
+                      {run.identCode || 'ID-??????'}
+                    </span>
+                    <span className="text-[10px] border px-1 opacity-70">{run.outcome === 'death' ? t('archive.death') : t('archive.ending')}</span>
+                  </div>
+                  <div className="text-[10px] opacity-60 truncate">
+                    {run.job || t('common.unknownJob')}{run.perk ? ` · ${run.perk}` : ''}{run.seed ? ` · ${t('seed.current', { seed: run.seed })}` : ''} · {t('resume.turns', { count: run.turns })}{run.cause ? ` · ${run.cause}` : ''}
+                  </div>
+                </div>
+                <div className="text-[10px] opacity-40 shrink-0">{new Date(run.timestamp).toLocaleString()}</div>
+              </button>
+
+              {expandedId === run.id && (
+                <div className={`p-3 border-t text-xs space-y-3 ${borderColor}`}>
+                  <div className="whitespace-pre-wrap font-serif opacity-90">{run.record}</div>
+                  {run.verdict && (
+                    <div className={`italic whitespace-pre-wrap ${isRetro ? 'text-[#ffb000]' : 'text-yellow-500'}`}>
+                      {t('common.verdict')} {run.verdict}
+                    </div>
+                  )}
+                  {/* Final HUD snapshot */}
+                  <div className={`p-2 border font-mono space-y-0.5 ${borderColor}`}>
+                    <div className={`uppercase text-[10px] mb-1 ${accentColor}`}>{t('archive.finalHud')}</div>
+                    <div>{t('hud.hp')}: {run.finalHud.hp || '---'} | {t('hud.mental')}: {run.finalHud.mental || '---'}</div>
+                    <div>{run.finalHud.stats || '---'}</div>
+                    <div>{run.finalHud.tags && run.finalHud.tags.length > 0 ? run.finalHud.tags.join(', ') : '---'}</div>
+                    <div>{run.finalHud.equipment || '---'}</div>
+                    <div className="opacity-70">{run.finalHud.notes || ''}</div>
+                  </div>
+                  {run.objectivesCompleted && run.objectivesCompleted.length > 0 && (
+                    <div className="font-mono">{t('archive.objectives', { list: run.objectivesCompleted.join(', ') })}</div>
+                  )}
+                  {run.perksEarned.length > 0 && (
+                    <div className="font-mono">{t('archive.legacy', { list: run.perksEarned.join(', ') })}</div>
+                  )}
+                  <button
+                    onClick={() => setShowTranscript(prev => !prev)}
+                    className={`text-[10px] font-mono underline opacity-60 hover:opacity-100 ${accentColor}`}
+                  >
+                    {showTranscript ? t('archive.hideTranscript') : t('archive.showTranscript', { count: run.transcript.length })}
+                  </button>
+                  {showTranscript && (
+                    <div className={`max-h-80 overflow-y-auto p-2 border space-y-2 ${borderColor}`}>
+                      {run.transcript.map((msg, idx) => (
+                        <div key={idx} className={`whitespace-pre-wrap ${msg.role === 'user' ? 'font-mono text-right opacity-70' : msg.role === 'system' ? 'font-mono text-center opacity-50' : ''}`}>
+                          {msg.role === 'user' ? `> ${msg.content}` : msg.content}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onBack}
+          className="mt-6 w-full text-center text-xs font-mono opacity-30 hover:opacity-100 transition-opacity"
+        >
+          {t('common.back')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RunArchiveScreen;
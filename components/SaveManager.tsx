@@ -0,0 +1,243 @@
+import React, { useRef, useState } from 'react';
+import { SaveFile } from '../types';
+import { summarizeSave } from '../utils/saveFormat';
+import { Translator } from '../utils/i18n';
+import ConfirmDialog from './ConfirmDialog';
+
+interface SaveManagerProps {
+  saves: SaveFile[];
+  canSave: boolean;           // false on the selection screen (load only)
+  defaultSaveName: string;
+  flashMsg: string | null;
+  isRetro: boolean;
+  t: Translator;
+  onCreate: (name: string) => void;
+  onOverwrite: (id: string) => void;
+  onLoad: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (id: string) => void;
+  onExportAll: () => void;
+  onImportFile: (file: File) => void;
+  onClose: () => void;
+}
+
+type PendingConfirm =
+  | { kind: 'overwrite'; id: string; name: string }
+  | { kind: 'delete'; ids: string[] };
+
+const SaveManager: React.FC<SaveManagerProps> = ({
+  saves, canSave, defaultSaveName, flashMsg, isRetro, t,
+  onCreate, onOverwrite, onLoad, onDelete, onExport, onExportAll, onImportFile, onClose
+}) => {
+  const [newName, setNewName] = useState('');
+  const [query, setQuery] = useState('');
+  const [newestFirst, setNewestFirst] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const accentColor = isRetro ? 'text-[#ffb000]' : 'text-green-400';
+  const cardClass = isRetro ? 'border-[#553b00] bg-[#221500]' : 'border-gray-700 bg-gray-800';
+  const smallButton = `px-2 py-1 text-[10px] font-bold border uppercase transition-colors`;
+
+  const needle = query.trim().toLowerCase();
+  const visible = saves
+    .map(save => ({ save, summary: summarizeSave(save) }))
+    .filter(({ save, summary }) => !needle || [save.name, summary.job, summary.perk, summary.excerpt, save.gameState.notes]
+      .some(field => field && field.toLowerCase().includes(needle)))
+    .sort((a, b) => newestFirst ? b.save.timestamp - a.save.timestamp : a.save.timestamp - b.save.timestamp);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleCreate = () => {
+    onCreate(newName.trim() || defaultSaveName);
+    setNewName('');
+  };
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    if (pending.kind === 'overwrite') {
+      onOverwrite(pending.id);
+    } else {
+      onDelete(pending.ids);
+      setSelectedIds(prev => prev.filter(id => !pending.ids.includes(id)));
+    }
+    setPending(null);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (file) onImportFile(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className={`max-w-lg w-full p-6 border shadow-2xl relative flex flex-col max-h-[90vh] ${isRetro ? 'bg-[#1a1000] border-[#ffb000] text-[#ffb000]' : 'bg-gray-900 border-green-500 text-gray-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className={`text-xl font-bold font-mono mb-4 border-b pb-2 flex justify-between ${isRetro ? 'border-[#553b00]' : 'border-green-800'}`}>
+          <span>{canSave ? t('save.managerTitle') : t('save.loadTitle')}</span>
+          <span className="text-xs opacity-50 self-end">{t('save.count', { count: saves.length })}</span>
+        </h3>
+
+        {/* New save */}
+        {canSave && (
+          <div className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+              placeholder={defaultSaveName}
+              className={`flex-1 px-2 py-1 text-xs font-mono bg-black border focus:outline-none ${isRetro ? 'border-[#553b00] placeholder-[#886600]' : 'border-gray-700 focus:border-green-600'}`}
+            />
+            <button
+              onClick={handleCreate}
+              className={`${smallButton} ${isRetro ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' : 'border-green-600 hover:bg-green-600 hover:text-black'}`}
+            >
+              {t('save.new')}
+            </button>
+          </div>
+        )}
+
+        {/* Search / sort / bulk */}
+        <div className="flex gap-2 mb-3 items-center font-mono">
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('save.search')}
+            className={`flex-1 px-2 py-1 text-[10px] bg-black border focus:outline-none ${isRetro ? 'border-[#553b00] placeholder-[#886600]' : 'border-gray-800 focus:border-gray-600'}`}
+          />
+          <button onClick={() => setNewestFirst(prev => !prev)} className={`${smallButton} border-gray-700 text-gray-400`}>
+            {newestFirst ? t('save.newest') : t('save.oldest')}
+          </button>
+          <button
+            onClick={() => selectedIds.length > 0 && setPending({ kind: 'delete', ids: selectedIds })}
+            disabled={selectedIds.length === 0}
+            className={`${smallButton} border-red-900 text-red-700 hover:bg-red-900 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent`}
+          >
+            {t('save.deleteSelected', { count: selectedIds.length })}
+          </button>
+        </div>
+
+        {/* Save list */}
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1 min-h-[120px]">
+          {visible.length === 0 && (
+            <div className="text-xs text-center py-8 italic opacity-30">{saves.length === 0 ? t('save.empty') : t('save.noMatches')}</div>
+          )}
+          {visible.map(({ save, summary }) => (
+            <div key={save.id} className={`p-3 border flex gap-3 ${cardClass}`}>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(save.id)}
+                onChange={() => toggleSelected(save.id)}
+                className="mt-1 accent-red-700"
+              />
+              <div className="flex-1 overflow-hidden">
+                <div className="flex justify-between items-start gap-2">
+                  <div className={`text-xs font-bold truncate ${accentColor}`}>{save.name}</div>
+                  <div className="text-[10px] opacity-50 shrink-0">{new Date(save.timestamp).toLocaleString()}</div>
+                </div>
+                {/* HUD thumbnail */}
+                <div className="text-[10px] font-mono opacity-70 mt-1 flex flex-wrap gap-x-2">
+                  <span>{summary.job || t('common.unknownJob')}</span>
+                  {summary.perk && <span>· {summary.perk}</span>}
+                  <span>· {t('resume.turns', { count: summary.turns })}</span>
+                  <span className={isRetro ? '' : 'text-red-400'}>· {t('hud.hp')} {summary.hp || '---'}</span>
+                  <span className={isRetro ? '' : 'text-blue-400'}>· {t('hud.mental')} {summary.mental || '---'}</span>
+                </div>
+                {summary.excerpt && (
+                  <div className="text-[10px] opacity-50 mt-1 line-clamp-2 font-sans">{summary.excerpt}</div>
+                )}
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => onLoad(save.id)}
+                    className={`${smallButton} flex-1 ${isRetro ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' : 'border-blue-500 text-blue-400 hover:bg-blue-500 hover:text-black'}`}
+                  >
+                    {t('save.load')}
+                  </button>
+                  {canSave && (
+                    <button
+                      onClick={() => setPending({ kind: 'overwrite', id: save.id, name: save.name })}
+                      className={`${smallButton} flex-1 ${isRetro ? 'border-[#ffb000] hover:bg-[#ffb000] hover:text-black' : 'border-green-600 hover:bg-green-600 hover:text-black'}`}
+                    >
+                      {t('save.overwrite')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onExport(save.id)}
+                    title={t('save.exportHint')}
+                    className={`${smallButton} ${isRetro ? 'border-[#553b00] hover:bg-[#ffb000] hover:text-black' : 'border-gray-600 text-gray-400 hover:bg-gray-600 hover:text-black'}`}
+                  >
+                    {t('save.export')}
+                  </button>
+                  <button
+                    onClick={() => setPending({ kind: 'delete', ids: [save.id] })}
+                    className={`${smallButton} border-red-900 text-red-700 hover:bg-red-900 hover:text-white`}
+                  >
+                    {t('save.delete')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {flashMsg && (
+          <div className="mt-4 text-[10px] font-mono text-center opacity-80 animate-pulse">{flashMsg}</div>
+        )}
+
+        {/* Export / Import */}
+        <div className="flex gap-2 mt-4">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportChange}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className={`flex-1 py-2 text-[10px] font-bold font-mono border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#553b00]' : 'border-gray-700 text-gray-400'}`}
+          >
+            {t('save.import')}
+          </button>
+          <button
+            onClick={onExportAll}
+            className={`flex-1 py-2 text-[10px] font-bold font-mono border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#553b00]' : 'border-gray-700 text-gray-400'}`}
+          >
+            {t('save.exportAll')}
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className={`mt-4 w-full py-3 text-xs font-bold border uppercase tracking-wider hover:bg-current hover:bg-opacity-10 ${isRetro ? 'border-[#ffb000]' : 'border-green-600'}`}
+        >
+          {t('save.close')}
+        </button>
+
+        {pending && (
+          <ConfirmDialog
+            title={pending.kind === 'overwrite' ? t('save.overwriteTitle') : t('save.deleteTitle')}
+            message={pending.kind === 'overwrite'
+              ? t('save.overwriteMessage', { name: pending.name })
+              : t('save.deleteMessage', { count: pending.ids.length })}
+            confirmLabel={pending.kind === 'overwrite' ? t('save.overwrite') : t('save.deleteConfirm')}
+            danger={pending.kind === 'delete'}
+            isRetro={isRetro}
+            onConfirm={handleConfirm}
+            onCancel={() => setPending(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaveManager;
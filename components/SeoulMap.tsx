@@ -0,0 +1,78 @@
+import React from 'react';
+import { Language, LocationVisit } from '../types';
+import { MAP_COLS, MAP_ROWS, RIVER_AFTER_ROW, SEOUL_DISTRICTS, matchDistrict } from '../utils/locations';
+
+interface SeoulMapProps {
+  visits: LocationVisit[];
+  current: string | null; // [위치] of the latest turn
+  language: Language;
+  isRetro: boolean;
+  riverLabel: string;
+  emptyLabel: string;
+}
+
+// Schematic district map: current district highlighted, visited ones filled, the rest outlined
+const SeoulMap: React.FC<SeoulMapProps> = ({ visits, current, language, isRetro, riverLabel, emptyLabel }) => {
+  const currentDistrict = current ? matchDistrict(current) : null;
+  const visitedDistricts = new Set(visits.map(v => v.district).filter(Boolean));
+
+  const tileClass = (id: string) => {
+    if (id === currentDistrict) {
+      return isRetro ? 'bg-[#ffb000] text-black border-[#ffb000] animate-pulse' : 'bg-green-600 text-black border-green-400 animate-pulse';
+    }
+    if (visitedDistricts.has(id)) {
+      return isRetro ? 'bg-[#553b00] text-[#ffb000] border-[#886600]' : 'bg-gray-800 text-gray-200 border-gray-600';
+    }
+    return isRetro ? 'border-[#332200] text-[#886600] opacity-60' : 'border-gray-900 text-gray-600';
+  };
+
+  const renderRow = (row: number) => (
+    <div key={row} className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${MAP_COLS}, minmax(0, 1fr))` }}>
+      {Array.from({ length: MAP_COLS }, (_, col) => {
+        const d = SEOUL_DISTRICTS.find(x => x.row === row && x.col === col);
+        return d ? (
+          <div
+            key={col}
+            title={d.fullNames[0]}
+            className={`h-6 border flex items-center justify-center text-[8px] leading-none truncate ${tileClass(d.id)}`}
+          >
+            {d.names[language]}
+          </div>
+        ) : <div key={col} />;
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5">
+        {Array.from({ length: MAP_ROWS }, (_, row) => (
+          <React.Fragment key={row}>
+            {renderRow(row)}
+            {row === RIVER_AFTER_ROW && (
+              <div className={`h-2 my-0.5 flex items-center justify-center text-[7px] tracking-[0.3em] ${isRetro ? 'bg-[#332200] text-[#886600]' : 'bg-blue-950 text-blue-700'}`}>
+                {riverLabel}
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {/* Visit log, newest first */}
+      {visits.length === 0 ? (
+        <div className="text-[10px] italic opacity-40">{emptyLabel}</div>
+      ) : (
+        <ul className="text-[10px] space-y-0.5 max-h-32 overflow-y-auto">
+          {[...visits].reverse().map(visit => (
+            <li key={visit.name} className={`flex justify-between gap-2 ${visit.name === current ? '' : 'opacity-50'}`}>
+              <span className="truncate">{visit.name === current ? '▶ ' : ''}{visit.name}</span>
+              <span className="shrink-0 opacity-60">T{visit.turn}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SeoulMap;
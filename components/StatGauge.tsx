@@ -0,0 +1,50 @@
+import React from 'react';
+
+interface DeltaIndicatorProps {
+  current: number | null | undefined;
+  previous: number | null | undefined;
+}
+
+// ▲/▼ marker shown when a value changed since the previous turn
+export const DeltaIndicator: React.FC<DeltaIndicatorProps> = ({ current, previous }) => {
+  if (current == null || previous == null || current === previous) return null;
+  const diff = current - previous;
+  return (
+    <span className={`ml-1 text-[10px] font-bold ${diff > 0 ? 'text-green-400' : 'text-red-500'}`}>
+      {diff > 0 ? '▲' : '▼'}{Math.abs(diff)}
+    </span>
+  );
+};
+
+interface StatGaugeProps {
+  label: string;
+  value: string;            // raw HUD text
+  level: number | null | undefined;        // 0-100
+  previousLevel: number | null | undefined;
+  barClass: string;         // tailwind bg-* for the fill
+  labelClass: string;
+  valueClass: string;
+  isRetro: boolean;
+}
+
+const StatGauge: React.FC<StatGaugeProps> = ({ label, value, level, previousLevel, barClass, labelClass, valueClass, isRetro }) => {
+  return (
+    <div className={`px-3 py-2 border rounded ${isRetro ? 'bg-[#221500] border-[#442b00]' : 'bg-gray-900 border-gray-800'}`}>
+      <div className="flex justify-between items-center">
+        <span className={`text-[10px] font-bold opacity-70 ${labelClass}`}>{label}</span>
+        <span className={`font-mono text-sm font-bold ${valueClass}`}>
+          {value || '---'}
+          <DeltaIndicator current={level} previous={previousLevel} />
+        </span>
+      </div>
+      <div className={`mt-1 h-1.5 w-full rounded-sm overflow-hidden ${isRetro ? 'bg-[#332200]' : 'bg-gray-800'}`}>
+        <div
+          className={`h-full transition-all duration-700 ${isRetro ? 'bg-[#ffb000]' : barClass}`}
+          style={{ width: `${level ?? 0}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default StatGauge;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Language, StatusEffect, StatusSeverity } from '../types';
+import { TranslationKey, Translator } from '../utils/i18n';
+import { findStatusEffect, getRemainingTurns } from '../utils/statusEffects';
+
+interface StatusEffectListProps {
+  effects: StatusEffect[];  // after the latest GM turn
+  previous: StatusEffect[]; // after the turn before, to mark what's new or gone
+  turn: number;
+  language: Language;
+  isRetro: boolean;
+  t: Translator;
+}
+
+const SEVERITY_COLORS: Record<StatusSeverity, string> = {
+  mild: 'border-yellow-800 text-yellow-500',
+  moderate: 'border-orange-800 text-orange-400',
+  severe: 'border-red-800 text-red-500',
+};
+
+// Active status effects with severity and timing; new ones are badged, resolved ones linger for a turn
+const StatusEffectList: React.FC<StatusEffectListProps> = ({ effects, previous, turn, language, isRetro, t }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const currentKeys = new Set(effects.map(e => e.key));
+  const previousKeys = new Set(previous.map(e => e.key));
+  const resolved = previous.filter(e => !currentKeys.has(e.key));
+  const displayName = (effect: StatusEffect) => findStatusEffect(effect.key)?.names[language] ?? effect.name;
+
+  const timing = (effect: StatusEffect): string => {
+    if (effect.droppedTurn !== null) return t('status.dropped', { turn: effect.droppedTurn });
+    const remaining = getRemainingTurns(effect, turn);
+    if (remaining === null) return t('status.untilTreated');
+    return remaining < 0 ? t('status.overdue', { turns: -remaining }) : t('status.remaining', { turns: remaining });
+  };
+
+  if (effects.length === 0 && resolved.length === 0) {
+    return <span className="opacity-50 italic text-xs">{t('hud.none')}</span>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {effects.map(effect => {
+        const isNew = !previousKeys.has(effect.key);
+        const isDropped = effect.droppedTurn !== null;
+        const mechanics = findStatusEffect(effect.key)?.mechanics[language];
+        return (
+          <li key={effect.key} className={isDropped ? 'opacity-60' : ''}>
+            <button
+              onClick={() => setExpanded(expanded === effect.key ? null : effect.key)}
+              className="w-full text-left flex items-center gap-2"
+            >
+              <span className={`shrink-0 text-[9px] border px-1 uppercase ${isRetro ? 'border-[#553b00]' : SEVERITY_COLORS[effect.severity]}`}>
+                {t(`status.severity.${effect.severity}` as TranslationKey)}
+              </span>
+              <span className="flex-1 truncate">
+                {isDropped && <span className="text-yellow-500 mr-1" title={t('status.droppedHint')}>⚠</span>}
+                {displayName(effect)}
+                {isNew && <span className={`ml-1 text-[9px] font-bold ${isRetro ? 'text-[#ffb000]' : 'text-red-400'}`}>{t('status.new')}</span>}
+              </span>
+              <span className="shrink-0 text-[9px] opacity-50">T{effect.appliedTurn} · {timing(effect)}</span>
+            </button>
+            {expanded === effect.key && (
+              <div className={`mt-1 ml-2 pl-2 border-l text-[10px] opacity-70 ${isRetro ? 'border-[#553b00]' : 'border-gray-800'}`}>
+                {mechanics || t('tag.statusDesc')}
+                {isDropped && <div className="mt-1 text-yellow-500">{t('status.droppedHint')}</div>}
+              </div>
+            )}
+          </li>
+        );
+      })}
+      {resolved.map(effect => (
+        <li key={effect.key} className="flex items-center gap-2 opacity-40">
+          <span className="line-through flex-1 truncate">{displayName(effect)}</span>
+          <span className="shrink-0 text-[9px]">{t('status.resolved')}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default StatusEffectList;
@@ -0,0 +1,126 @@
+import { STORAGE_KEY_SETTINGS, STORAGE_KEY_LEGACY, STORAGE_KEY_SAVES, STORAGE_KEY_RUNS } from "../constants";
+import { JobDefinition, PromptPack, Recipe, RunRecord, SaveFile } from "../types";
+import { migrateSaveList } from "../utils/saveFormat";
+import { IndexedDbRepository } from "./indexedDbRepository";
+
+export { StorageQuotaError, isQuotaError } from "./storageErrors";
+
+export type StoredSettings = Record<string, unknown>;
+
+/**
+ * Persistence for everything except the API key: save slots, legacy perks,
+ * settings and the run archive. All methods are async so the backing store
+ * can be IndexedDB (browser) or memory (tests / unsupported browsers).
+ */
+export interface GameRepository {
+  getSaves(): Promise<SaveFile[]>;
+  putSave(save: SaveFile): Promise<void>; // insert or overwrite by id
+  deleteSaves(ids: string[]): Promise<void>;
+  getAutosave(): Promise<SaveFile | null>;
+  putAutosave(save: SaveFile | null): Promise<void>; // null clears it
+  getLegacyPerks(): Promise<string[]>;
+  putLegacyPerks(perks: string[]): Promise<void>;
+  getSettings(): Promise<StoredSettings | null>;
+  putSettings(settings: StoredSettings): Promise<void>;
+  getRuns(): Promise<RunRecord[]>;
+  addRun(run: RunRecord): Promise<void>;
+  getPromptPacks(): Promise<PromptPack[]>; // imported packs only; built-ins live in code
+  putPromptPacks(packs: PromptPack[]): Promise<void>;
+  getCustomJobs(): Promise<JobDefinition[]>; // player-made classes; built-ins live in code
+  putCustomJobs(jobs: JobDefinition[]): Promise<void>;
+  getCustomRecipes(): Promise<Recipe[]>; // imported recipe mods; built-ins and pack recipes live elsewhere
+  putCustomRecipes(recipes: Recipe[]): Promise<void>;
+  getMeta(key: string): Promise<unknown>;
+  putMeta(key: string, value: unknown): Promise<void>;
+}
+
+// Fallback store when IndexedDB is unavailable (e.g. some private browsing modes); nothing survives a reload
+export class InMemoryRepository implements GameRepository {
+  private saves = new Map<string, SaveFile>();
+  private autosave: SaveFile | null = null;
+  private perks: string[] = [];
+  private settings: StoredSettings | null = null;
+  private runs: RunRecord[] = [];
+  private packs: PromptPack[] = [];
+  private jobs: JobDefinition[] = [];
+  private recipes: Recipe[] = [];
+  private meta = new Map<string, unknown>();
+
+  // structuredClone keeps callers from mutating stored data, like a real store would
+  async getSaves() { return structuredClone([...this.saves.values()]); }
+  async putSave(save: SaveFile) { this.saves.set(save.id, structuredClone(save)); }
+  async deleteSaves(ids: string[]) { ids.forEach(id => this.saves.delete(id)); }
+  async getAutosave() { return structuredClone(this.autosave); }
+  async putAutosave(save: SaveFile | null) { this.autosave = structuredClone(save); }
+  async getLegacyPerks() { return [...this.perks]; }
+  async putLegacyPerks(perks: string[]) { this.perks = [...perks]; }
+  async getSettings() { return this.settings ? { ...this.settings } : null; }
+  async putSettings(settings: StoredSettings) { this.settings = { ...settings }; }
+  async getRuns() { return structuredClone(this.runs); }
+  async addRun(run: RunRecord) { this.runs.push(structuredClone(run)); }
+  async getPromptPacks() { return structuredClone(this.packs); }
+  async putPromptPacks(packs: PromptPack[]) { this.packs = structuredClone(packs); }
+  async getCustomJobs() { return structuredClone(this.jobs); }
+  async putCustomJobs(jobs: JobDefinition[]) { this.jobs = structuredClone(jobs); }
+  async getCustomRecipes() { return structuredClone(this.recipes); }
+  async putCustomRecipes(recipes: Recipe[]) { this.recipes = structuredClone(recipes); }
+  async getMeta(key: string) { return this.meta.get(key); }
+  async putMeta(key: string, value: unknown) { this.meta.set(key, value); }
+}
+
+export const createRepository = (): GameRepository => {
+  if (typeof indexedDB === 'undefined') {
+    console.warn("IndexedDB unavailable; progress will not persist across reloads.");
+    return new InMemoryRepository();
+  }
+  return new IndexedDbRepository();
+};
+
+const MIGRATION_FLAG = 'migrated_local_storage_v1';
+
+const readLegacyJson = (key: string): unknown => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error(`Failed to read ${key} during migration`, e);
+    return null;
+  }
+};
+
+/**
+ * One-time copy of the old seoul_fallout_*_v1 localStorage keys into the repository.
+ * The old keys are removed afterwards to free the localStorage quota.
+ */
+export const migrateLocalStorage = async (repo: GameRepository): Promise<void> => {
+  if (await repo.getMeta(MIGRATION_FLAG)) return;
+
+  const saves = readLegacyJson(STORAGE_KEY_SAVES);
+  if (Array.isArray(saves)) {
+    for (const save of migrateSaveList(saves)) {
+      await repo.putSave(save);
+    }
+  }
+
+  const perks = readLegacyJson(STORAGE_KEY_LEGACY);
+  if (Array.isArray(perks)) {
+    await repo.putLegacyPerks(perks.filter((p): p is string => typeof p === 'string'));
+  }
+
+  const settings = readLegacyJson(STORAGE_KEY_SETTINGS);
+  if (settings && typeof settings === 'object' && !Array.isArray(settings)) {
+    await repo.putSettings(settings as StoredSettings);
+  }
+
+  const runs = readLegacyJson(STORAGE_KEY_RUNS);
+  if (Array.isArray(runs)) {
+    for (const run of runs) {
+      if (run && typeof run.id === 'string') await repo.addRun(run);
+    }
+  }
+
+  await repo.putMeta(MIGRATION_FLAG, Date.now());
+  [STORAGE_KEY_SAVES, STORAGE_KEY_LEGACY, STORAGE_KEY_SETTINGS, STORAGE_KEY_RUNS]
+    .forEach(key => localStorage.removeItem(key));
+};
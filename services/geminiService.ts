@@ -1,22 +1,45 @@
 import { GoogleGenAI } from "@google/genai";
-import type { Chat } from "@google/genai";
-import { SYSTEM_PROMPT } from "../constants";
-import { Message } from "../types";
+import type { Chat, GenerateContentConfig } from "@google/genai";
+import { GAME_LANGUAGE_PROMPTS, STRUCTURED_OUTPUT_PROMPT } from "../constants";
+import { JobDefinition, Language, Message, PromptPack, RunSetup, TurnProtocol } from "../types";
+import type { NarratorProvider } from "./narratorProvider";
+import { TURN_RESPONSE_SCHEMA } from "./turnSchema";
+import { formatTranscript, localSummarize } from "../utils/memory";
+import { DEFAULT_PROMPT_PACK, LANGUAGE_NAMES, buildStartPrompt, buildTagPrompt } from "../utils/promptPacks";
 
-export class GeminiService {
+export class GeminiService implements NarratorProvider {
   private ai: GoogleGenAI;
   private chat: Chat;
+  private protocol: TurnProtocol;
+  private pack: PromptPack;
+  private language: Language;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, protocol: TurnProtocol = 'markdown', pack: PromptPack = DEFAULT_PROMPT_PACK, language: Language = 'ko') {
+    this.protocol = protocol;
+    this.pack = pack;
+    this.language = language;
     this.ai = new GoogleGenAI({ apiKey });
     this.chat = this.ai.chats.create({
       model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: SYSTEM_PROMPT,
-      },
+      config: this.getChatConfig(),
     });
   }
 
+  // Per-request configs do not inherit the chat config, so build it in one place
+  private getChatConfig(): GenerateContentConfig {
+    const systemPrompt = this.pack.systemPrompt + GAME_LANGUAGE_PROMPTS[this.language];
+    if (this.protocol === 'json') {
+      return {
+        systemInstruction: systemPrompt + STRUCTURED_OUTPUT_PROMPT,
+        responseMimeType: "application/json",
+        responseSchema: TURN_RESPONSE_SCHEMA,
+      };
+    }
+    return {
+      systemInstruction: systemPrompt,
+    };
+  }
+
   async validateConnection(): Promise<boolean> {
     const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
     
@@ -58,34 +81,26 @@ export class GeminiService {
     }
   }
 
-  async startGame(selectedJob: string, selectedPerk: string | null): Promise<string> {
+  async *sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string> {
     try {
-        let mode = "Zero Hour (No Perks, Fresh Start)";
-        let perkInstructions = "";
-
-        if (selectedPerk) {
-            mode = `Legacy Mode (Apply Perk: ${selectedPerk})`;
-            perkInstructions = `
-5. LEGACY PERK ACTIVATION:
-   - The player starts with the perk: '${selectedPerk}'.
-   - You MUST add '${selectedPerk}' to the [Tags] list in the HUD.
-   - IMPORTANT: If '${selectedPerk}' is an item, weapon, or tool, you MUST ALSO add it to the [장비] (Equipment) field in the HUD.
-   - Explicitly mention this item/perk in the opening narrative.`;
-        }
-
-        const prompt = `[SYSTEM] GAME START SEQUENCE INITIATED.
-        
-SELECTED MODE: ${mode}
-SELECTED CLASS: ${selectedJob}
-
-INSTRUCTION: 
-1. Do NOT display character selection menu.
-2. Do NOT ask about Zero Hour or Perks.
-3. Start the narrative immediately at 'Situation 1'.
-4. Apply the traits of the '${selectedJob}' class to the starting inventory and stats.
-${perkInstructions}
-6. Generate the first scene now.`;
+      const stream = await this.chat.sendMessageStream({
+        message,
+        config: { ...this.getChatConfig(), abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        if (signal?.aborted) return;
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error("Failed to stream message:", error);
+      throw error;
+    }
+  }
 
+  async startGame(selectedJob: JobDefinition, selectedPerk: string | null, setup: RunSetup): Promise<string> {
+    try {
+        const prompt = buildStartPrompt(this.pack, selectedJob, selectedPerk, setup);
         const result = await this.chat.sendMessage({ message: prompt });
         return result.text || "";
     } catch (error) {
@@ -98,8 +113,7 @@ ${perkInstructions}
     try {
         const response = await this.ai.models.generateContent({
             model: "gemini-2.5-flash",
-            contents: `Context: "Project: Seoul Fallout" (Text Adventure RPG, Post-apocalyptic Seoul 2045).
-Question: Briefly explain the status/tag '${tagName}' in 1-2 sentences. Focus on its gameplay effect or narrative flavor. Answer in Korean.`,
+            contents: buildTagPrompt(this.pack, tagName, this.language),
         });
         return response.text || "";
     } catch (error) {
@@ -108,6 +122,31 @@ Question: Briefly explain the status/tag '${tagName}' in 1-2 sentences. Focus on
     }
   }
 
+  async summarizeStory(previousSummary: string, messages: Message[]): Promise<string> {
+    try {
+        const response = await this.ai.models.generateContent({
+            model: "gemini-2.5-flash",
+            contents: `You are the archivist of "Project: Seoul Fallout" (Text Adventure RPG, Post-apocalyptic Seoul 2045).
+Merge the previous summary and the new transcript into one compact "story so far" in ${LANGUAGE_NAMES[this.language]}.
+Keep only facts the GM needs to stay consistent. Use exactly this format, keeping the Korean section headers (items separated by ';', '-' if none):
+[줄거리] (chronological summary, max 8 sentences)
+[NPC] (name - relation/status)
+[퀘스트] (open objectives and promises)
+[부상] (lasting injuries and conditions)
+
+PREVIOUS SUMMARY:
+${previousSummary || '(none)'}
+
+NEW TRANSCRIPT:
+${formatTranscript(messages)}`,
+        });
+        return response.text || localSummarize(previousSummary, messages);
+    } catch (error) {
+        console.error("Failed to summarize story, using local summary:", error);
+        return localSummarize(previousSummary, messages);
+    }
+  }
+
   /**
    * Resumes a game session with existing message history.
    * Filters out system messages and maps to SDK format.
@@ -124,9 +163,7 @@ Question: Briefly explain the status/tag '${tagName}' in 1-2 sentences. Focus on
     // Create a new chat session with history
     this.chat = this.ai.chats.create({
       model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: SYSTEM_PROMPT,
-      },
+      config: this.getChatConfig(),
       history: sdkHistory,
     });
   }
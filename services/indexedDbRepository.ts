@@ -0,0 +1,164 @@
+import { JobDefinition, PromptPack, Recipe, RunRecord, SaveFile } from "../types";
+import type { GameRepository, StoredSettings } from "./gameRepository";
+import { StorageQuotaError, isQuotaError } from "./storageErrors";
+
+const DB_NAME = 'seoul_fallout';
+const DB_VERSION = 2;
+const KV_STORE = 'kv';     // autosave / perks / settings / prompt packs / classes / meta, keyed by name
+const RUNS_STORE = 'runs'; // RunRecord, keyed by id
+const SAVES_STORE = 'saves'; // SaveFile, keyed by id (v2+)
+
+const KEY_LEGACY_SLOTS = 'saves'; // v1 fixed slot array in KV_STORE, moved to SAVES_STORE on upgrade
+const KEY_AUTOSAVE = 'autosave';
+const KEY_LEGACY = 'legacy';
+const KEY_SETTINGS = 'settings';
+const KEY_PROMPT_PACKS = 'prompt_packs';
+const KEY_CUSTOM_JOBS = 'custom_jobs';
+const KEY_CUSTOM_RECIPES = 'custom_recipes';
+const META_PREFIX = 'meta:';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbRepository implements GameRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          const tx = request.transaction!;
+          if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+          if (!db.objectStoreNames.contains(RUNS_STORE)) db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(SAVES_STORE)) {
+            const saves = db.createObjectStore(SAVES_STORE, { keyPath: 'id' });
+            // v1 -> v2: spread the fixed slot array into individual records.
+            // Records only get an id here; migrateSaveFile fills in the rest on load.
+            if (event.oldVersion >= 1) {
+              const kv = tx.objectStore(KV_STORE);
+              const slotsRequest = kv.get(KEY_LEGACY_SLOTS);
+              slotsRequest.onsuccess = () => {
+                const slots = slotsRequest.result;
+                if (Array.isArray(slots)) {
+                  slots.forEach((slot, i) => {
+                    if (slot) saves.put({ ...slot, id: slot.id || `slot-${i + 1}-${slot.timestamp ?? i}` });
+                  });
+                }
+                kv.delete(KEY_LEGACY_SLOTS);
+              };
+            }
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async read<T>(store: string, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return promisify(fn(db.transaction(store, 'readonly').objectStore(store)));
+  }
+
+  // Writes resolve on transaction commit, which is where quota failures surface
+  private async write(store: string, fn: (s: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(store, 'readwrite');
+        fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    } catch (error) {
+      if (isQuotaError(error)) throw new StorageQuotaError();
+      throw error;
+    }
+  }
+
+  async getSaves(): Promise<SaveFile[]> {
+    return this.read(SAVES_STORE, s => s.getAll());
+  }
+
+  async putSave(save: SaveFile): Promise<void> {
+    await this.write(SAVES_STORE, s => s.put(save));
+  }
+
+  async deleteSaves(ids: string[]): Promise<void> {
+    await this.write(SAVES_STORE, s => ids.forEach(id => s.delete(id)));
+  }
+
+  async getAutosave(): Promise<SaveFile | null> {
+    return (await this.read(KV_STORE, s => s.get(KEY_AUTOSAVE))) ?? null;
+  }
+
+  async putAutosave(save: SaveFile | null): Promise<void> {
+    await this.write(KV_STORE, s => {
+      if (save) s.put(save, KEY_AUTOSAVE);
+      else s.delete(KEY_AUTOSAVE);
+    });
+  }
+
+  async getLegacyPerks(): Promise<string[]> {
+    return (await this.read(KV_STORE, s => s.get(KEY_LEGACY))) ?? [];
+  }
+
+  async putLegacyPerks(perks: string[]): Promise<void> {
+    await this.write(KV_STORE, s => s.put(perks, KEY_LEGACY));
+  }
+
+  async getSettings(): Promise<StoredSettings | null> {
+    return (await this.read(KV_STORE, s => s.get(KEY_SETTINGS))) ?? null;
+  }
+
+  async putSettings(settings: StoredSettings): Promise<void> {
+    await this.write(KV_STORE, s => s.put(settings, KEY_SETTINGS));
+  }
+
+  async getRuns(): Promise<RunRecord[]> {
+    return this.read(RUNS_STORE, s => s.getAll());
+  }
+
+  async addRun(run: RunRecord): Promise<void> {
+    await this.write(RUNS_STORE, s => s.put(run));
+  }
+
+  async getPromptPacks(): Promise<PromptPack[]> {
+    return (await this.read(KV_STORE, s => s.get(KEY_PROMPT_PACKS))) ?? [];
+  }
+
+  async putPromptPacks(packs: PromptPack[]): Promise<void> {
+    await this.write(KV_STORE, s => s.put(packs, KEY_PROMPT_PACKS));
+  }
+
+  async getCustomJobs(): Promise<JobDefinition[]> {
+    return (await this.read(KV_STORE, s => s.get(KEY_CUSTOM_JOBS))) ?? [];
+  }
+
+  async putCustomJobs(jobs: JobDefinition[]): Promise<void> {
+    await this.write(KV_STORE, s => s.put(jobs, KEY_CUSTOM_JOBS));
+  }
+
+  async getCustomRecipes(): Promise<Recipe[]> {
+    return (await this.read(KV_STORE, s => s.get(KEY_CUSTOM_RECIPES))) ?? [];
+  }
+
+  async putCustomRecipes(recipes: Recipe[]): Promise<void> {
+    await this.write(KV_STORE, s => s.put(recipes, KEY_CUSTOM_RECIPES));
+  }
+
+  async getMeta(key: string): Promise<unknown> {
+    return this.read(KV_STORE, s => s.get(META_PREFIX + key));
+  }
+
+  async putMeta(key: string, value: unknown): Promise<void> {
+    await this.write(KV_STORE, s => s.put(value, META_PREFIX + key));
+  }
+}
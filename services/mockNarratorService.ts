@@ -0,0 +1,158 @@
+import { JobDefinition, Message, RunSetup } from "../types";
+import { localSummarize } from "../utils/memory";
+import type { NarratorProvider } from "./narratorProvider";
+
+// Canned GM turns replayed in order. Covers the HUD block, perk acquisition,
+// the death record and the reset handshake so the whole UI can be exercised offline.
+export const MOCK_SCRIPT: string[] = [
+`매캐한 연기가 폐허가 된 을지로3가역 승강장을 뒤덮고 있다. 천장에서 떨어지는 물방울이 녹슨 레일을 두드리고, 어둠 너머에서 무언가 질질 끌리는 소리가 들린다.
+당신의 손에는 날이 빠진 소방 도끼 한 자루뿐이다.
+
+[퀘스트: 지상으로 | 진행 | 무너지지 않은 출구를 찾아 역을 벗어난다]
+
+1. [후퇴] 개찰구 쪽으로 조용히 물러나 상황을 살핀다.
+2. [정면 돌파] 도끼를 들고 소리가 나는 쪽으로 다가간다.
+3. [수색] 근처에 쓰러진 경비원의 시신을 뒤진다.
+0. [자유 행동] "직접 서술하시오"
+
+\`\`\`text
+[상태] HP: 양호 | 멘탈: 불안
+[스탯] 피지컬(3) | 생존(2) | 카리스마(1)
+[태그] [은신], [탐색]
+[장비] 녹슨 소방 도끼, 라이터
+[메모] 배고픔 경미, 출구를 찾아야 함
+[위치] 을지로3가역 승강장 (중구)
+\`\`\``,
+
+`경비원의 주머니에서 반쯤 젖은 진통제 한 통과 지하철 노선도가 나온다. 그 순간, 등 뒤에서 썩은 숨결이 느껴진다.
+변이된 들개 한 마리가 이빨을 드러낸다.
+
+[상태이상: 부상 | 경미 | 5]
+
+1. [반격] 도끼를 휘둘러 들개의 머리를 노린다.
+2. [도주] 선로 아래로 뛰어내려 어둠 속으로 달린다.
+0. [자유 행동] "직접 서술하시오"
+
+\`\`\`text
+[상태] HP: 경상 | 멘탈: 긴장
+[스탯] 피지컬(3) | 생존(2) | 카리스마(1)
+[태그] [은신], [탐색], [부상]
+[장비] 녹슨 소방 도끼, 라이터, 진통제(1), 지하철 노선도
+[메모] 왼팔 물림 상처, 출구를 찾아야 함
+[위치] 을지로3가역 환기구 통로 (중구)
+\`\`\``,
+
+`도끼날이 들개의 두개골을 쪼갠다. 피투성이가 된 채 당신은 노선도를 따라 시청역 방향의 비상구를 찾아낸다.
+지상으로 나오자 잿빛 하늘 아래 무너진 서울이 펼쳐진다. 당신은 살아남았다.
+
+[퀘스트: 지상으로 | 완료]
+[엔딩: 지상으로]
+[PERK_ACQUIRED: 서울시 지하철 지도]
+
+새로운 시뮬레이션을 시작하시겠습니까? (Y/N)
+
+\`\`\`text
+[상태] HP: 경상 | 멘탈: 안정
+[스탯] 피지컬(3) | 생존(3) | 카리스마(1)
+[태그] [은신], [탐색], [부상]
+[장비] 녹슨 소방 도끼, 라이터, 지하철 노선도
+[메모] 엔딩 도달
+[위치] 청계천 복개 구간 (종로구)
+\`\`\``,
+
+`선로 아래의 어둠은 생각보다 깊었다. 발을 헛디딘 당신의 목이 레일 모서리에 부딪히며 꺾인다.
+
+[사망 엔딩]
+[사망 기록부]
+식별코드: ID-MK0CK1
+사인: 추락에 의한 경추 골절
+[GM의 총평] 어둠 속에서 서두른 자에게 서울은 두 번째 기회를 주지 않는다.
+
+새로운 시뮬레이션을 시작하시겠습니까? (Y/N)
+
+\`\`\`text
+[상태] HP: 사망 | 멘탈: -
+[스탯] 피지컬(0) | 생존(0) | 카리스마(0)
+[태그] [사망]
+[장비] -
+[메모] 시뮬레이션 종료
+[위치] -
+\`\`\``,
+];
+
+const RESET_RESPONSE = '[SYSTEM_RESET]';
+
+/**
+ * Deterministic offline narrator. Every call returns the next scripted turn,
+ * looping back to the start when the script runs out.
+ */
+export class MockNarratorService implements NarratorProvider {
+  private script: string[];
+  private cursor = 0;
+  private latencyMs: number;
+
+  constructor(script: string[] = MOCK_SCRIPT, latencyMs: number = 400) {
+    this.script = script;
+    this.latencyMs = latencyMs;
+  }
+
+  private async delay(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+  }
+
+  private next(): string {
+    const turn = this.script[this.cursor % this.script.length];
+    this.cursor++;
+    return turn;
+  }
+
+  async validateConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async startGame(_selectedJob: JobDefinition, _selectedPerk: string | null, _setup: RunSetup): Promise<string> {
+    await this.delay();
+    this.cursor = 0;
+    return this.next();
+  }
+
+  async sendMessage(message: string): Promise<string> {
+    await this.delay();
+    // Mirror the real GM's reset handshake. Only the player's own input counts:
+    // location and check notes are appended after a blank line.
+    const input = message.split(/\n\s*\n/)[0];
+    if (/^\s*y\s*$/i.test(input)) {
+      this.cursor = 0;
+      return RESET_RESPONSE;
+    }
+    return this.next();
+  }
+
+  async *sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const full = await this.sendMessage(message);
+    // Emit a few characters at a time to mimic token streaming
+    const chunkSize = 12;
+    for (let i = 0; i < full.length; i += chunkSize) {
+      if (signal?.aborted) return;
+      yield full.slice(i, i + chunkSize);
+      await new Promise(resolve => setTimeout(resolve, 30));
+    }
+  }
+
+  async resumeGame(_history: Message[], playedTurns: number): Promise<void> {
+    // Continue the script from where the real transcript left off; the rebuilt history
+    // can carry a context preamble and drop summarized turns, so it can't be counted here
+    this.cursor = playedTurns;
+  }
+
+  async getTagExplanation(tagName: string): Promise<string> {
+    await this.delay();
+    return `[MOCK] '${tagName}' 태그에 대한 오프라인 설명입니다.`;
+  }
+
+  async summarizeStory(previousSummary: string, messages: Message[]): Promise<string> {
+    return localSummarize(previousSummary, messages);
+  }
+}
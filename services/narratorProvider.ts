@@ -0,0 +1,46 @@
+import { JobDefinition, Language, Message, RunSetup, PromptPack, TurnProtocol } from "../types";
+import { GeminiService } from "./geminiService";
+import { MockNarratorService } from "./mockNarratorService";
+
+/**
+ * Common surface for every GM backend (Gemini, scripted mock, ...).
+ * The UI only talks to this interface, never to a concrete SDK.
+ */
+export interface NarratorProvider {
+  validateConnection(): Promise<boolean>;
+  startGame(selectedJob: JobDefinition, selectedPerk: string | null, setup: RunSetup): Promise<string>;
+  sendMessage(message: string): Promise<string>;
+  /**
+   * Streams the GM response as raw text chunks.
+   * Aborting the signal ends the stream early; callers should discard the partial turn.
+   */
+  sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+  /**
+   * Rebuilds the session from `history`, which may open with a context preamble and skip summarized turns.
+   * `playedTurns` is the number of GM turns in the real transcript.
+   */
+  resumeGame(history: Message[], playedTurns: number): Promise<void>;
+  getTagExplanation(tagName: string): Promise<string>;
+  /** Folds `messages` into the running summary. Output follows parseSummaryOutput's format. */
+  summarizeStory(previousSummary: string, messages: Message[]): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface NarratorConfig {
+  provider: ProviderId;
+  apiKey: string; // unused by the mock provider
+  protocol?: TurnProtocol; // defaults to 'markdown'
+  promptPack?: PromptPack; // defaults to the built-in pack; the mock GM is scripted and ignores it
+  language?: Language; // GM narration language, defaults to 'ko'
+}
+
+export const createNarrator = (config: NarratorConfig): NarratorProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return new MockNarratorService();
+    case 'gemini':
+    default:
+      return new GeminiService(config.apiKey, config.protocol, config.promptPack, config.language);
+  }
+};
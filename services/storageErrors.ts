@@ -0,0 +1,13 @@
+// Thrown when the browser refuses a write because the storage quota is exhausted; the UI shows its own translated text
+export class StorageQuotaError extends Error {
+  constructor(message: string = "Storage quota exceeded") {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export const isQuotaError = (error: unknown): boolean => {
+  if (error instanceof StorageQuotaError) return true;
+  const name = (error as { name?: unknown } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
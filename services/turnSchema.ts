@@ -0,0 +1,53 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+
+// Response schema for the structured JSON turn protocol (mirrors StructuredTurn in types.ts)
+export const TURN_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    narrative: { type: Type.STRING },
+    choices: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+    },
+    hud: {
+      type: Type.OBJECT,
+      properties: {
+        hp: { type: Type.STRING },
+        mental: { type: Type.STRING },
+        stats: {
+          type: Type.OBJECT,
+          properties: {
+            physical: { type: Type.INTEGER },
+            survival: { type: Type.INTEGER },
+            charisma: { type: Type.INTEGER },
+          },
+          required: ["physical", "survival", "charisma"],
+        },
+        tags: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+        equipment: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+        notes: { type: Type.STRING },
+        location: { type: Type.STRING },
+      },
+      required: ["hp", "mental", "stats", "tags", "equipment", "notes"],
+    },
+    events: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING },
+          detail: { type: Type.STRING },
+        },
+        required: ["type"],
+      },
+    },
+  },
+  required: ["narrative", "choices", "hud", "events"],
+};
@@ -1,6 +1,166 @@
+import type { TranslationKey } from "./utils/i18n";
+
 export interface Message {
   role: 'user' | 'model' | 'system';
   content: string;
+  choices?: string[]; // parsed action choices (model turns only)
+  protocolIssues?: string[]; // structured-turn validation problems (model turns only)
+  checkpoint?: Partial<GameState>; // HUD state right before this action (user turns only), for rewind
+  alternatives?: ResponseCandidate[]; // rerolled candidates for this turn (model turns only)
+  alternativeIndex?: number; // which candidate is currently shown
+  check?: CheckResult; // client-side skill check rolled for this action (user turns only)
+  inventoryFlags?: InventoryFlags; // unexplained [장비] changes this turn (model turns only)
+  codexUpdates?: CodexUpdate[]; // [NPC: ...] / [세력: ...] markers from this turn (model turns only)
+  questUpdates?: QuestUpdate[]; // [퀘스트: ...] markers from this turn (model turns only)
+  statusEffects?: StatusEffect[]; // tracked status effects after this turn (model turns only)
+}
+
+export type CheckOutcome = 'critical-success' | 'success' | 'failure' | 'critical-failure';
+
+// A d20 check resolved locally; the GM is told the outcome instead of rolling itself
+export interface CheckResult {
+  skill: string | null;           // action label, e.g. "은신"; null for a plain check
+  stat: keyof StatValues | null;  // stat the skill leans on, if recognised
+  modifier: number;               // stat + matching tag + injury penalty
+  roll: number;                   // natural d20
+  dc: number;
+  outcome: CheckOutcome;
+  rngState: number;               // dice state before this roll, restored on rewind
+}
+
+// One generated GM response for a turn; rerolls keep every candidate so the player can page between them
+export interface ResponseCandidate {
+  content: string;
+  choices?: string[];
+  protocolIssues?: string[];
+  hudState: Partial<GameState>; // HUD after this candidate
+  inventoryFlags?: InventoryFlags;
+  codexUpdates?: CodexUpdate[];
+  questUpdates?: QuestUpdate[];
+  statusEffects?: StatusEffect[];
+}
+
+export type CodexKind = 'npc' | 'faction';
+export type Disposition = 'hostile' | 'wary' | 'neutral' | 'friendly' | 'ally' | 'unknown';
+
+// One marker as the GM wrote it; empty fields leave the entry's previous value alone
+export interface CodexUpdate {
+  kind: CodexKind;
+  name: string;
+  faction: string | null;     // NPCs only
+  disposition: string | null; // free text, e.g. "경계", "hostile"
+  fact: string | null;
+  location: string | null;    // [위치] of the turn it was reported on
+  turn: number;
+}
+
+// Codex entry folded from every update about the same name
+export interface CodexEntry {
+  kind: CodexKind;
+  name: string;
+  faction: string | null;
+  disposition: Disposition;
+  dispositionText: string | null;
+  lastSeen: string | null;
+  facts: string[];
+  firstTurn: number;
+  lastTurn: number;
+}
+
+export type QuestStatus = 'active' | 'completed' | 'failed';
+
+// One [퀘스트: 이름 | 상태 | 목표] marker; a missing objective keeps the previous one
+export interface QuestUpdate {
+  name: string;
+  status: QuestStatus;
+  objective: string | null;
+  turn: number;
+}
+
+// Journal entry folded from every update about the same quest
+export interface QuestEntry {
+  name: string;
+  status: QuestStatus;
+  objective: string | null;
+  startTurn: number;
+  endTurn: number | null; // turn it was completed or failed
+}
+
+export type StatusSeverity = 'mild' | 'moderate' | 'severe';
+
+// Catalog entry for a known status effect; names double as [태그] spellings
+export interface StatusEffectDefinition {
+  id: string;
+  names: Record<Language, string>;
+  aliases: string[];
+  severity: StatusSeverity;   // default when the GM doesn't say
+  duration: number | null;    // expected turns; null = lasts until treated
+  mechanics: Record<Language, string>;
+}
+
+// One [상태이상: 이름 | 심각도 | 지속] marker
+export interface StatusUpdate {
+  name: string;
+  severity: StatusSeverity | null;
+  duration: number | null;
+  cleared: boolean; // severity slot read "해제" / "회복"
+}
+
+// A status effect as tracked by the client across turns
+export interface StatusEffect {
+  key: string;                // catalog id, or the normalized name for effects outside the catalog
+  name: string;               // as the GM first wrote it
+  severity: StatusSeverity;
+  appliedTurn: number;
+  duration: number | null;
+  tagged: boolean;            // has been listed in [태그]; only tagged effects can be silently dropped
+  droppedTurn: number | null; // turn the GM stopped listing it without clearing it
+}
+
+// One crafting input; an inventory entry whose name contains any of `names` counts
+export interface RecipeIngredient {
+  names: string[];   // first one is shown; the rest are aliases, in any language
+  quantity: number;
+  consumed: boolean; // false for tools that are only needed, e.g. 라이터
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  description: string;
+  ingredients: RecipeIngredient[];
+  requiredTags: string[]; // all of them, e.g. "[화학]"
+  output: { name: string; quantity: number };
+}
+
+// What the current inventory and tags are missing for a recipe
+export interface RecipeAvailability {
+  recipe: Recipe;
+  missingItems: string[];
+  missingTags: string[];
+  craftable: boolean;
+}
+
+export type ItemCategory = 'weapon' | 'armor' | 'medical' | 'food' | 'tool' | 'misc';
+
+// One entry of the [장비] HUD line, parsed client-side
+export interface InventoryItem {
+  name: string;
+  quantity: number;
+  condition: string | null; // parenthesized note, e.g. "손상", "탄 4발"
+  category: ItemCategory;
+}
+
+// Items that appeared or vanished without the action or narration mentioning them
+export interface InventoryFlags {
+  appeared: string[];
+  vanished: string[];
+}
+
+export interface StatValues {
+  physical?: number;
+  survival?: number;
+  charisma?: number;
 }
 
 export interface GameState {
@@ -10,6 +170,11 @@ export interface GameState {
   tags: string[];
   equipment: string;
   notes: string;
+  location: string; // [위치] line
+  // Numeric views derived from the raw HUD strings above
+  hpLevel: number | null;     // 0-100, null if unreadable
+  mentalLevel: number | null; // 0-100, null if unreadable
+  statValues: StatValues;
 }
 
 export interface ParsedResponse {
@@ -18,13 +183,187 @@ export interface ParsedResponse {
   hudRaw: string | null;
 }
 
+// How the GM formats each turn
+export type TurnProtocol = 'markdown' | 'json';
+
+// Structured (JSON mode) turn as requested through the response schema
+export interface StructuredTurn {
+  narrative: string;
+  choices: string[];
+  hud: {
+    hp: string;
+    mental: string;
+    stats: {
+      physical: number;
+      survival: number;
+      charisma: number;
+    };
+    tags: string[];
+    equipment: string[];
+    notes: string;
+    location?: string;
+  };
+  events: TurnEvent[];
+}
+
+export interface TurnEvent {
+  type: string; // 'perk_acquired' | 'death' | 'ending' | 'system_reset' | ...
+  detail?: string;
+}
+
+export interface TurnValidationReport {
+  valid: boolean;
+  missing: string[];   // field paths absent from the turn
+  malformed: string[]; // field paths present with the wrong shape
+}
+
+// Detected end of a run (death record or ending) in a GM turn
+export interface RunEndInfo {
+  outcome: 'death' | 'ending';
+  identCode: string | null;  // "ID-XXXXXX" from the death record
+  title: string | null;      // ending name, e.g. "지상으로"
+  cause: string | null;      // "사인: ..." line, if the GM wrote one
+  record: string;            // death record / ending text block
+  verdict: string | null;    // [GM의 총평]
+}
+
+// Inclusive [min, max] for a starting stat
+export type StatRange = [number, number];
+
+// A playable class. Built-ins ship with the game; custom ones come from the class editor.
+export interface JobDefinition {
+  id: string;
+  name: string;
+  description: string;
+  startingTags: string[];
+  statRanges: Record<keyof StatValues, StatRange>;
+  equipmentPool: string[]; // the GM picks the starting kit from these
+}
+
+// A schema problem as a translation key; params always carry the field path
+export interface ValidationIssue {
+  key: TranslationKey;
+  params: { path: string } & Record<string, string | number>;
+}
+
+export interface JobValidationReport {
+  valid: boolean;
+  errors: ValidationIssue[];
+}
+
+// A place the player has been this run, in first-visit order
+export interface LocationVisit {
+  name: string;            // as the GM wrote it in [위치]
+  district: string | null; // SEOUL_DISTRICTS id, if recognised
+  turn: number;            // player turn count when first reached
+}
+
+// Opening parameters derived from a run seed (see utils/runSeed)
+export interface RunSetup {
+  seed: string;      // normalized share code
+  location: string;
+  crisis: string;
+  loot: string[];
+}
+
+// UI language and the language the GM narrates in
+export type Language = 'ko' | 'en' | 'ja';
+
+// Bracketed HUD line labels and the HP/mental keys inside the status line
+export interface HudLabels {
+  status: string;    // [상태]
+  stats: string;     // [스탯]
+  tags: string;      // [태그]
+  equipment: string; // [장비]
+  notes: string;     // [메모]
+  location: string;  // [위치]
+  hp: string;        // HP
+  mental: string;    // 멘탈
+}
+
+// Versioned bundle of everything that defines the GM's rules and voice
+export interface PromptPack {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  startTemplate: string;          // {{mode}}, {{job}}, {{perkInstructions}}
+  legacyPerkTemplate: string;     // {{perk}}
+  tagExplanationTemplate: string; // {{tag}}, {{language}}
+  hudLabels: HudLabels;
+  recipes?: Recipe[];             // added to (or replacing, by id) the built-in recipe book
+}
+
+export interface PromptPackRef {
+  id: string;
+  version: string;
+}
+
+// Rolling "story so far" that replaces older turns in the model context
+export interface CampaignMemory {
+  summary: string;
+  facts: {
+    npcs: string[];
+    quests: string[];
+    injuries: string[];
+  };
+  pinnedHud: Partial<GameState>; // HUD at compression time
+  summarizedCount: number;       // messages[0..summarizedCount) are covered by the summary
+  updatedAt: number;
+}
+
+export type GamePhase = 'intro' | 'selection' | 'perk-selection' | 'job-selection' | 'prologue' | 'playing' | 'game-over' | 'archive';
+
 export interface SaveFile {
+  version: number; // SAVE_FILE_VERSION at write time; older saves are migrated on load
+  id: string;
+  name: string;    // player-chosen save name
   timestamp: number;
   summary: string; // usually from notes or last message
   messages: Message[];
   gameState: Partial<GameState>;
-  phase: any; // GamePhase
+  phase: GamePhase;
   selectedPerk: string | null;
+  selectedJob: string | null;
+  selectedJobId?: string | null; // JobDefinition id; the name above is localized
+  hardcore?: boolean; // rewind disabled for this run, fixed when it started
+  memory?: CampaignMemory | null;
+  diceState?: number; // seeded RNG position, so a reload rolls the same dice
+  runSeed?: string | null; // share code the run was started from
+  locations?: LocationVisit[];
+  promptPack: PromptPackRef; // rules the run was started with
+}
+
+// Portable .json export: a single slot, or every slot plus legacy perks and settings
+export type SaveExport =
+  | { kind: 'slot'; version: number; exportedAt: number; save: SaveFile }
+  | {
+      kind: 'bundle';
+      version: number;
+      exportedAt: number;
+      saves: SaveFile[];
+      legacyPerks: string[];
+      settings: Record<string, unknown> | null;
+    };
+
+// Archived record of a finished run (사망 기록부 hall)
+export interface RunRecord {
+  id: string;
+  timestamp: number;
+  identCode: string | null;
+  job: string | null;
+  perk: string | null;
+  seed?: string | null;
+  turns: number;
+  outcome: RunEndInfo['outcome'];
+  cause: string | null;      // cause of death, or the ending title
+  verdict: string | null;
+  record: string;
+  perksEarned: string[];
+  objectivesCompleted?: string[]; // quests completed this run
+  finalHud: Partial<GameState>;
+  transcript: Message[];
 }
 
 export enum GameStatus {
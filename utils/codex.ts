@@ -0,0 +1,71 @@
+import { CodexEntry, CodexKind, CodexUpdate, Disposition, Message } from "../types";
+import { extractMarkers } from "./parser";
+
+const MAX_FACTS = 6;
+
+// Checked in order, Korean / English / Japanese wording
+const DISPOSITION_PATTERNS: [RegExp, Disposition][] = [
+  [/적대|적의|살의|hostile|enemy|敵対|敵意/i, 'hostile'],
+  [/동맹|충성|신뢰|ally|allied|loyal|trust|同盟|忠誠|信頼/i, 'ally'],
+  [/경계|의심|불신|wary|suspicious|distrust|警戒|疑い|不信/i, 'wary'],
+  [/우호|호의|친근|friendly|kind|友好|好意/i, 'friendly'],
+  [/중립|무관심|neutral|indifferent|中立|無関心/i, 'neutral'],
+];
+
+export const classifyDisposition = (text: string | null): Disposition =>
+  text ? DISPOSITION_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'unknown' : 'unknown';
+
+/**
+ * Pulls codex markers out of a GM turn. Returns the narrative without the marker lines
+ * and one update per marker, stamped with where and when it was reported.
+ */
+export const extractCodexUpdates = (narrative: string, location: string | null, turn: number): { text: string; updates: CodexUpdate[] } => {
+  // [NPC: 이름 | 소속 세력 | 태도 | 특기사항]  /  [세력: 이름 | 태도 | 특기사항]
+  const npcs = extractMarkers('NPC', narrative, 4);
+  const factions = extractMarkers('세력', npcs.text, 3);
+  const updates: CodexUpdate[] = [
+    ...npcs.markers.map(([name, faction, disposition, fact]): CodexUpdate =>
+      ({ kind: 'npc', name, faction, disposition, fact, location, turn })),
+    ...factions.markers.map(([name, disposition, fact]): CodexUpdate =>
+      ({ kind: 'faction', name, faction: null, disposition, fact, location, turn })),
+  ];
+  return { text: factions.text, updates };
+};
+
+const entryKey = (kind: CodexKind, name: string) => `${kind}:${name.replace(/\s+/g, '').toLowerCase()}`;
+
+/** Folds every update in the (current branch of the) chat into codex entries, most recently seen first. */
+export const buildCodex = (messages: Message[]): CodexEntry[] => {
+  const entries = new Map<string, CodexEntry>();
+  messages.forEach(m => m.codexUpdates?.forEach(update => {
+    const key = entryKey(update.kind, update.name);
+    const prev = entries.get(key);
+    const dispositionText = update.disposition ?? prev?.dispositionText ?? null;
+    const facts = prev ? [...prev.facts] : [];
+    if (update.fact && !facts.includes(update.fact)) facts.push(update.fact);
+    entries.set(key, {
+      kind: update.kind,
+      name: prev?.name ?? update.name,
+      faction: update.faction ?? prev?.faction ?? null,
+      disposition: classifyDisposition(dispositionText),
+      dispositionText,
+      lastSeen: update.location ?? prev?.lastSeen ?? null,
+      facts: facts.slice(-MAX_FACTS),
+      firstTurn: prev?.firstTurn ?? update.turn,
+      lastTurn: update.turn,
+    });
+  }));
+  return [...entries.values()].sort((a, b) => b.lastTurn - a.lastTurn);
+};
+
+/** Compact codex for rebuilt sessions, so NPCs keep their names, loyalties and grudges after a load; null when empty. */
+export const formatCodexBlock = (codex: CodexEntry[]): string | null => codex.length === 0 ? null : [
+  '[SYSTEM] CODEX (플레이어가 만난 인물과 세력 — 이 설정과 모순되지 않게 진행하십시오.)',
+  ...codex.map(e => [
+    e.kind === 'npc' ? `NPC ${e.name}` : `세력 ${e.name}`,
+    e.faction ? `소속 ${e.faction}` : null,
+    e.dispositionText ? `태도 ${e.dispositionText}` : null,
+    e.lastSeen ? `마지막 위치 ${e.lastSeen}` : null,
+    e.facts.length > 0 ? e.facts.join('; ') : null,
+  ].filter(Boolean).join(' | ')),
+].join('\n');
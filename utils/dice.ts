@@ -0,0 +1,94 @@
+import { CheckOutcome, CheckResult, GameState, Message, StatValues } from "../types";
+
+export const CHECK_DC = 12;
+const TAG_BONUS = 2;
+const INJURY_PENALTY = -2;
+const INJURY_HP_LEVEL = 35; // at or below this HP level (중상) every check takes the penalty
+
+// Which stat a choice label leans on. Matched as substrings, Korean / English / Japanese.
+const SKILL_STATS: [RegExp, keyof StatValues][] = [
+  [/전투|공격|돌파|사격|화기|근접|격투|힘|제압|combat|attack|fight|shoot|charge|force|戦闘|攻撃|突破|射撃/i, 'physical'],
+  [/설득|협상|대화|거래|위협|기만|회유|지휘|persuade|negotiate|talk|trade|intimidate|deceive|説得|交渉|会話|取引|威嚇/i, 'charisma'],
+  [/은신|탐색|수색|후퇴|도주|잠입|생존|의학|치료|공학|해킹|화학|수리|제작|stealth|search|scout|retreat|flee|sneak|hack|repair|heal|craft|隠密|探索|捜索|撤退|逃走|潜入|製作/i, 'survival'],
+];
+
+/** New random 32-bit seed for a run. */
+export const createDiceSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/** mulberry32: returns a float in [0, 1) and the next state. Pure, so the state can be saved. */
+export const nextRandom = (state: number): [number, number] => {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+export const rollDie = (state: number, sides: number): [number, number] => {
+  const [value, next] = nextRandom(state);
+  return [Math.floor(value * sides) + 1, next];
+};
+
+// "2. [은신] 그림자를 따라 이동한다" -> "은신"
+export const getChoiceLabel = (choice: string): string | null => {
+  const m = choice.match(/\[([^\]]+)\]/);
+  return m ? m[1].trim() : null;
+};
+
+const stripBrackets = (tag: string) => tag.replace(/[\[\]]/g, '').trim();
+
+const getOutcome = (roll: number, total: number, dc: number): CheckOutcome => {
+  if (roll === 20) return 'critical-success';
+  if (roll === 1) return 'critical-failure';
+  return total >= dc ? 'success' : 'failure';
+};
+
+/**
+ * Rolls a d20 check for a chosen action using the parsed HUD.
+ * The skill is the choice's bracketed label, else the first skill word in its text;
+ * choices matching neither get a plain check with no stat bonus.
+ */
+export const resolveCheck = (choice: string, state: Partial<GameState>, rngState: number): { check: CheckResult; rngState: number } => {
+  const label = getChoiceLabel(choice);
+  let skill: string | null = label;
+  let stat: keyof StatValues | null = null;
+  for (const [pattern, key] of SKILL_STATS) {
+    const m = (label ?? choice).match(pattern);
+    if (m) {
+      skill = label ?? m[0];
+      stat = key;
+      break;
+    }
+  }
+  const statBonus = stat ? state.statValues?.[stat] ?? 0 : 0;
+  const hasTag = !!skill && (state.tags || []).some(tag => {
+    const name = stripBrackets(tag);
+    return !!name && (name.includes(skill) || skill.includes(name));
+  });
+  const injured = state.hpLevel != null && state.hpLevel <= INJURY_HP_LEVEL;
+  const modifier = statBonus + (hasTag ? TAG_BONUS : 0) + (injured ? INJURY_PENALTY : 0);
+
+  const [roll, next] = rollDie(rngState, 20);
+  return {
+    check: { skill, stat, modifier, roll, dc: CHECK_DC, outcome: getOutcome(roll, roll + modifier, CHECK_DC), rngState },
+    rngState: next,
+  };
+};
+
+export const formatModifier = (n: number): string => (n >= 0 ? `+${n}` : `${n}`);
+
+const OUTCOME_PROMPT: Record<CheckOutcome, string> = {
+  'critical-success': '대성공 (CRITICAL SUCCESS)',
+  'success': '성공 (SUCCESS)',
+  'failure': '실패 (FAILURE)',
+  'critical-failure': '대실패 (CRITICAL FAILURE)',
+};
+
+/** Appended to the player's action so the GM narrates the client's roll instead of its own. */
+export const formatCheckForPrompt = (check: CheckResult): string =>
+  `[판정 결과] ${check.skill ?? '일반'} ${formatModifier(check.modifier)}, d20=${check.roll}, 합계 ${check.roll + check.modifier} vs DC ${check.dc} → ${OUTCOME_PROMPT[check.outcome]}\n` +
+  `(The client already rolled this check. Narrate exactly this outcome and its consequences; do NOT roll again or change the result.)`;
+
+// Text the GM actually saw for a user turn (used when sending and when rebuilding the session)
+export const withCheckText = (message: Message): Message =>
+  message.check ? { ...message, content: `${message.content}\n\n${formatCheckForPrompt(message.check)}` } : message;
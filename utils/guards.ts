@@ -0,0 +1,13 @@
+// Type guards for untrusted JSON (imports, saves, model output)
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every(item => typeof item === 'string');
+
+// Field readers for input that has already been validated; anything else reads as empty
+export const readText = (v: unknown): string => typeof v === 'string' ? v.trim() : '';
+
+export const readTextList = (v: unknown): string[] =>
+  isStringArray(v) ? v.map(item => item.trim()).filter(Boolean) : [];
@@ -0,0 +1,1154 @@
+import { Language, ValidationIssue } from "../types";
+import { findStatusEffect } from "./statusEffects";
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'ko', label: '한국어' },
+  { id: 'en', label: 'English' },
+  { id: 'ja', label: '日本語' },
+];
+
+export const isLanguage = (v: unknown): v is Language =>
+  LANGUAGES.some(l => l.id === v);
+
+// Korean is the reference table: every other language must define the same keys.
+// Placeholders use {name} and are filled by the translator.
+const ko = {
+  // Intro
+  'intro.subtitle': 'Post-Apocalyptic Survival Simulation',
+  'intro.tagline': 'Seoul, 2045. No Plot Armor. No Mercy.',
+  'intro.warning': 'SYSTEM WARNING:',
+  'intro.warningViolence': '이 시뮬레이션에는 폭력과 트라우마에 대한 묘사가 포함되어 있습니다.',
+  'intro.warningRng': 'RNG는 절대적입니다. 죽음은 영구적입니다.',
+  'intro.warningChoices': '당신의 선택이 생존을 결정합니다.',
+  'intro.connect': 'CONNECT TO SERVER',
+  'resume.title': '▶ RESUME LAST SESSION',
+  'resume.turns': '{count} TURNS',
+  'resume.source': 'LAST SESSION',
+
+  // Selection
+  'selection.title': 'INITIALIZATION SEQUENCE',
+  'selection.zeroHour': 'ZERO HOUR',
+  'selection.zeroHourDesc': '새로운 타임라인을 시작합니다. 무작위 시작. 높은 도덕적 위험.',
+  'selection.legacy': 'LEGACY ACCESS',
+  'selection.perkCount': '{count} PERKS',
+  'selection.legacyDesc': '이전 생존 기록의 특전을 적용합니다.',
+  'selection.promptPack': 'Prompt Pack',
+  'selection.loadPack': '[ LOAD .JSON ]',
+  'selection.gmLanguage': 'GM Language',
+  'selection.loadSave': '[ LOAD SAVE DATA ]',
+  'selection.archive': '[ 사망 기록부 ({count}) ]',
+  'common.returnToTitle': '[ RETURN TO TITLE ]',
+  'common.back': '[ 뒤로 가기 ]',
+
+  // Perk / job selection
+  'perk.title': 'LEGACY DATABASE',
+  'perk.subtitle': '이번 타임라인에 적용할 특전을 하나 선택하십시오.',
+  'job.title': '직업 선택 (SELECT CLASS)',
+  'job.mode': '모드: {mode}',
+  'job.modeLegacy': '계승 적용 [{perk}]',
+  'job.modeZero': '제로 아워 (초기화)',
+  'job.Mercenary.name': '용병 (MERCENARY)',
+  'job.Mercenary.desc': '전투 전문가. 높은 체력과 무기 숙련도.',
+  'job.Technician.name': '기술자 (TECHNICIAN)',
+  'job.Technician.desc': '기계와 해킹의 마스터. 폐허 속 장비 제어.',
+  'job.Doctor.name': '의사 (DOCTOR)',
+  'job.Doctor.desc': '생존을 위한 의료 지식과 화학물질 제조.',
+  'job.Scavenger.name': '스캐빈저 (SCAVENGER)',
+  'job.Scavenger.desc': '은신과 탐색에 특화된 생존 전문가.',
+  'job.custom': '커스텀',
+  'job.equipmentPool': '장비 풀: {items}',
+  'job.openEditor': '[ 직업 편집기 ]',
+  'seed.label': '런 시드',
+  'seed.placeholder': '비우면 무작위',
+  'seed.random': '[ 무작위 ]',
+  'seed.current': '시드 {seed}',
+  'seed.copy': '[복사]',
+
+  // Class editor
+  'jobEditor.title': '직업 편집기',
+  'jobEditor.customCount': '커스텀 {count}개',
+  'jobEditor.builtin': '기본',
+  'jobEditor.edit': '편집',
+  'jobEditor.duplicate': '복제',
+  'jobEditor.copySuffix': '(복사본)',
+  'jobEditor.export': '내보내기',
+  'jobEditor.exportHint': '.json 파일로 내보내기',
+  'jobEditor.delete': '삭제',
+  'jobEditor.name': '이름',
+  'jobEditor.description': '설명',
+  'jobEditor.tags': '시작 태그: [전투], [화기]',
+  'jobEditor.equipment': '장비 풀 (한 줄에 하나)',
+  'jobEditor.cancel': '취소',
+  'jobEditor.save': '직업 저장',
+  'jobEditor.new': '+ 새 직업',
+  'jobEditor.empty': '커스텀 직업 없음',
+  'jobEditor.paste': '직업 JSON 붙여넣기...',
+  'jobEditor.importPasted': '붙여넣은 JSON 가져오기',
+  'jobEditor.importFile': '.json 가져오기',
+  'jobEditor.copy': 'JSON 복사',
+  'jobEditor.exportAll': '전체 내보내기',
+  'jobEditor.close': '편집기 닫기',
+  'jobEditor.saved': "'{name}' 저장됨",
+  'jobEditor.deleted': "'{name}' 삭제됨",
+  'jobEditor.copied': '클립보드에 복사됨',
+  'jobEditor.copyFailed': '클립보드 복사 실패',
+  'jobEditor.imported': '{count}개 직업을 불러왔습니다',
+  'jobEditor.deleteTitle': '직업 삭제',
+  'jobEditor.deleteMessage': "'{name}' 직업 정의를 삭제합니다. 이미 시작한 런에는 영향이 없습니다.",
+  'jobEditor.deleteConfirm': '삭제',
+  'validation.notObject': '{path}: 객체가 아닙니다',
+  'validation.required': '{path}: 필수 항목입니다',
+  'validation.notText': '{path}: 문자열이어야 합니다',
+  'validation.notTextList': '{path}: 문자열 목록이어야 합니다',
+  'validation.emptyList': '{path}: 최소 한 개가 필요합니다',
+  'validation.rangeShape': '{path}: [최소, 최대] 정수여야 합니다',
+  'validation.rangeOrder': '{path}: 최소값이 최대값보다 큽니다',
+  'validation.rangeBounds': '{path}: {min}-{max} 범위여야 합니다',
+  'validation.positiveInt': '{path}: 양의 정수여야 합니다',
+  'validation.notBoolean': '{path}: true 또는 false여야 합니다',
+
+  // Prologue
+  'prologue.line1': '2045년, 서울.',
+  'prologue.line2': '핵전쟁의 화염이 모든 것을 집어삼킨 지 20년...',
+  'prologue.line3': '질서는 무너졌고, 오직 생존만이 유일한 법이 되었다.',
+  'prologue.line4': '당신의 이야기가... 지금 시작된다.',
+  'prologue.generating': 'GENERATING WORLD STATE...',
+  'prologue.start': '[ SIMULATION START ]',
+
+  // HUD sidebar
+  'hud.active': 'ACTIVE',
+  'hud.hp': 'HP',
+  'hud.mental': 'MENTAL',
+  'hud.parameters': 'Parameters',
+  'hud.analyzing': 'Analyzing subject...',
+  'hud.tags': 'Tags',
+  'hud.none': 'None',
+  'hud.equipment': 'Equipment',
+  'hud.empty': 'Empty',
+  'hud.log': 'Log Data',
+  'hud.noUpdates': 'No critical updates.',
+  'status.title': 'Conditions',
+  'status.new': 'NEW',
+  'status.resolved': '회복됨',
+  'status.remaining': '{turns}턴 남음',
+  'status.overdue': '{turns}턴 초과',
+  'status.untilTreated': '치료 필요',
+  'status.dropped': 'T{turn}부터 언급 없음',
+  'status.droppedHint': 'GM이 회복 처리 없이 태그에서 뺀 상태이상입니다. 아직 남아 있을 수 있습니다.',
+  'status.severity.mild': '경미',
+  'status.severity.moderate': '중간',
+  'status.severity.severe': '심각',
+  'map.title': '지도',
+  'map.unknown': '위치 불명',
+  'map.river': '한강',
+  'map.noVisits': '아직 기록된 장소가 없습니다.',
+  'sidebar.hud': 'HUD',
+  'sidebar.codex': '코덱스 ({count})',
+  'sidebar.journal': '퀘스트 ({count})',
+  'sidebar.craft': '제작 ({count})',
+  'craft.button': '제작',
+  'craft.missing': '부족: {items}',
+  'craft.consumes': '소모: {items}',
+  'craft.tools': '도구: {items}',
+  'craft.imported': '추가 레시피 {count}개',
+  'craft.import': '레시피 가져오기',
+  'craft.clear': '추가 레시피 삭제',
+  'craft.clearTitle': '추가 레시피 삭제',
+  'craft.clearMessage': '가져온 레시피 {count}개를 삭제합니다. 기본 레시피와 프롬프트 팩 레시피는 남습니다.',
+  'craft.action': '[{skill}] 제작: {recipe} | 소모 재료: {consumes} | 도구: {tools} | 결과물: {output}',
+  'journal.empty': '기록된 퀘스트가 없습니다.',
+  'journal.started': 'T{turn} 시작',
+  'journal.span': 'T{start} → T{end}',
+  'journal.status.active': '진행',
+  'journal.status.completed': '완료',
+  'journal.status.failed': '실패',
+  'codex.filter.all': '전체',
+  'codex.filter.npc': '인물',
+  'codex.filter.faction': '세력',
+  'codex.faction': '세력',
+  'codex.empty': '아직 만난 인물이나 세력이 없습니다.',
+  'codex.lastSeen': '마지막 목격: {place} (T{turn})',
+  'codex.firstMet': '첫 등장: T{turn}',
+  'codex.disposition.hostile': '적대',
+  'codex.disposition.wary': '경계',
+  'codex.disposition.neutral': '중립',
+  'codex.disposition.friendly': '우호',
+  'codex.disposition.ally': '동맹',
+  'codex.disposition.unknown': '불명',
+  'stat.physical': '피지컬',
+  'stat.survival': '생존',
+  'stat.charisma': '카리스마',
+  'menu.system': '[ SYSTEM MENU ]',
+
+  // System config
+  'config.title': 'System Config',
+  'config.visualMode': 'Visual Mode',
+  'config.digital': 'Digital',
+  'config.clean': 'Clean',
+  'config.retro': 'Retro',
+  'config.typeface': 'Typeface',
+  'config.sans': 'Sans',
+  'config.serif': 'Serif',
+  'config.mono': 'Mono',
+  'config.textSize': 'Text Size',
+  'config.rewind': 'Rewind',
+  'config.allowed': 'Allowed',
+  'config.hardcore': 'Hardcore',
+  'config.rewindHint': '새로 시작하는 런부터 적용됩니다.',
+  'config.language': 'Language',
+
+  // Context memory panel
+  'memory.title': 'Context Memory',
+  'memory.fullHistory': 'FULL HISTORY',
+  'memory.sentContext': 'SENT CONTEXT',
+  'memory.summary': 'SUMMARY',
+  'memory.summarized': 'SUMMARIZED',
+  'memory.messages': '{covered} / {total} msgs',
+  'memory.none': '아직 요약이 없습니다.',
+  'memory.compress': 'Compress Now',
+
+  // Tag inspection
+  'tag.close': 'Close Data',
+  'tag.decoding': '데이터베이스 암호 해독 중... [ACCESSING GM NODE]',
+  'tag.legacyTitle': '[계승된 기억: {tag}]',
+  'tag.legacyDesc': '이전 회차의 생존 기록에서 계승된 고유 능력입니다.',
+  'tag.abilityTitle': '[능력 분석: {tag}]',
+  'tag.statusTitle': '[상태 분석: {tag}]',
+  'tag.statusDesc': '현재 시뮬레이션 환경 또는 플레이어의 신체/정신 상태에 영향을 미치는 활성 변수입니다.',
+
+  // Chat / input
+  'chat.reroll': '[↻ REROLL]',
+  'chat.rewind': '[⟲ REWIND]',
+  'chat.rewindHint': '이 시점으로 되돌리기',
+  'chat.freeAction': '자유 행동',
+  'chat.placeholder': '무엇을 하시겠습니까?',
+  'chat.stop': 'Stop',
+  'chat.act': 'Act',
+  'chat.footer': 'PROJECT: SEOUL FALLOUT | PROTOTYPE BUILD',
+
+  // Inventory
+  'inventory.category.weapon': '무기',
+  'inventory.category.armor': '방어구',
+  'inventory.category.medical': '의료',
+  'inventory.category.food': '식량',
+  'inventory.category.tool': '도구',
+  'inventory.category.misc': '기타',
+  'inventory.use': '사용',
+  'inventory.drop': '버리기',
+  'inventory.inspect': '조사',
+  'inventory.action.use': '[사용] 인벤토리의 {item} 하나를 사용한다.',
+  'inventory.action.drop': '[버리기] {item}을(를) 버린다.',
+  'inventory.action.inspect': '[조사] {item}을(를) 자세히 살펴본다.',
+  'inventory.appearedHint': '설명 없이 새로 생긴 아이템',
+  'inventory.vanished': '사라짐: {items}',
+  'inventory.vanishedHint': '설명 없이 HUD에서 사라진 아이템',
+  'inventory.mismatch': '[장비 불일치] 새로 생김: {appeared} / 사라짐: {vanished}',
+
+  // Skill checks
+  'check.line': '판정: {skill} {modifier}, d20={roll} → {outcome}',
+  'check.general': '일반',
+  'check.critical-success': '대성공',
+  'check.success': '성공',
+  'check.failure': '실패',
+  'check.critical-failure': '대실패',
+
+  'save.defaultName': '{job} - {turn}턴',
+  'save.survivor': '생존자',
+  'save.importConflictTitle': '세이브 덮어쓰기',
+  'save.importConflictMessage': '가져올 세이브 중 {count}개가 기존 세이브와 ID가 같습니다: {names}\n덮어쓰면 기존 진행 상황은 사라집니다.',
+  'save.importOverwrite': '덮어쓰기',
+  'save.managerTitle': 'SYSTEM MEMORY',
+  'save.loadTitle': 'LOAD MEMORY',
+  'save.count': '{count} SAVES',
+  'save.new': 'New Save',
+  'save.search': 'SEARCH...',
+  'save.newest': 'NEWEST ▼',
+  'save.oldest': 'OLDEST ▲',
+  'save.deleteSelected': 'DEL ({count})',
+  'save.empty': 'No Data Blocks',
+  'save.noMatches': 'No Matches',
+  'save.load': 'LOAD',
+  'save.overwrite': 'OVERWRITE',
+  'save.export': 'EXP',
+  'save.exportHint': 'Export as .json',
+  'save.delete': 'DEL',
+  'save.import': 'Import .json',
+  'save.exportAll': 'Export All',
+  'save.close': 'Close System',
+  'save.overwriteTitle': 'OVERWRITE SAVE?',
+  'save.overwriteMessage': "'{name}' 세이브를 현재 진행 상황으로 덮어씁니다.",
+  'save.deleteTitle': 'DELETE SAVE DATA?',
+  'save.deleteMessage': '{count}개의 세이브를 영구 삭제합니다. 되돌릴 수 없습니다.',
+  'save.deleteConfirm': 'DELETE',
+
+  // Game over / run archive
+  'gameOver.signalLost': 'SIGNAL LOST',
+  'gameOver.complete': 'SIMULATION COMPLETE',
+  'gameOver.deathRecord': '[사망 기록부]',
+  'gameOver.ending': '[엔딩]',
+  'gameOver.endingTitled': '[엔딩: {title}]',
+  'gameOver.identCode': '식별코드',
+  'gameOver.turns': '생존 턴',
+  'gameOver.perks': '획득 특전',
+  'gameOver.cause': '사인:',
+  'gameOver.noRecord': '기록 없음',
+  'gameOver.objectives': 'Objectives Completed',
+  'gameOver.legacy': 'Legacy Acquired',
+  'gameOver.newSimulation': '[ NEW SIMULATION ]',
+  'archive.title': '사망 기록부 (RUN ARCHIVE)',
+  'archive.count': '{count} RECORDS ON FILE',
+  'archive.job': 'JOB',
+  'archive.outcome': 'OUTCOME',
+  'archive.all': 'ALL',
+  'archive.death': '사망',
+  'archive.ending': '엔딩',
+  'archive.empty': 'NO RECORDS FOUND',
+  'archive.finalHud': 'Final HUD',
+  'archive.objectives': 'OBJECTIVES: {list}',
+  'archive.legacy': 'LEGACY: {list}',
+  'archive.showTranscript': '[ SHOW TRANSCRIPT ({count}) ]',
+  'archive.hideTranscript': '[ HIDE TRANSCRIPT ]',
+
+  // Flash / system messages
+  'flash.noPerks': '획득한 특전이 없습니다. (No Legacy Data)',
+  'flash.packLoaded': '[SYSTEM] PROMPT PACK LOADED: {name} v{version}',
+  'flash.seedCopied': '[SYSTEM] 시드 {seed} 복사됨',
+  'flash.seedCopyFailed': '클립보드를 사용할 수 없습니다. 시드: {seed}',
+  'flash.packImportFailed': '[ERROR] 프롬프트 팩을 불러오지 못했습니다: {message}',
+  'flash.recipesLoaded': '[SYSTEM] 레시피 {count}개를 추가했습니다.',
+  'flash.recipesImportFailed': '[ERROR] 레시피를 불러오지 못했습니다: {message}',
+  'flash.packReservedId': '기본 프롬프트 팩의 id는 사용할 수 없습니다.',
+  'flash.packMissing': '[WARN] 프롬프트 팩 {missing} 없음: {used} 사용',
+  'flash.newLegacy': '[SYSTEM] NEW LEGACY ACQUIRED: {perk}',
+  'flash.memoryCompressed': '[SYSTEM] MEMORY COMPRESSED: {count} MESSAGES SUMMARIZED',
+  'flash.memoryFailed': '[ERROR] MEMORY COMPRESSION FAILED',
+  'flash.rerollFailed': '[ERROR] REROLL FAILED',
+  'flash.rewound': '[SYSTEM] TIMELINE REWOUND TO TURN {turn}',
+  'flash.rewindFailed': '[ERROR] FAILED TO REWIND SESSION',
+  'flash.saved': '[SYSTEM] DATA SAVED: {name}',
+  'flash.overwritten': '[SYSTEM] DATA OVERWRITTEN: {name}',
+  'flash.restored': '[SYSTEM] SIMULATION RESTORED FROM {source}',
+  'flash.restoreFailed': '[ERROR] FAILED TO RESTORE SESSION',
+  'flash.imported': '[SYSTEM] IMPORTED {count} SAVE(S)',
+  'flash.importFailed': '[ERROR] IMPORT FAILED: {message}',
+  'system.initFailed': '[ERROR] 초기화 중 시스템 오류가 발생했습니다.',
+  'system.connectionLost': '[ERROR] 연결이 끊어졌습니다. 데이터 패킷 재전송 중...',
+  'storage.title': '[STORAGE ERROR]',
+  'storage.loadFailed': '저장된 데이터를 불러오지 못했습니다.',
+  'storage.quota': '저장 공간이 부족합니다. 오래된 세이브나 기록을 삭제하세요.',
+  'storage.writeFailed': '저장 실패: {message}',
+  'common.unknownError': '알 수 없는 오류',
+  'common.unknownJob': '직업 미상',
+  'common.verdict': '[GM의 총평]',
+  'import.invalidJson': 'JSON 파일을 읽을 수 없습니다.',
+  'import.saveInvalid': '올바른 세이브 파일이 아닙니다.',
+  'import.saveCorrupt': '세이브 데이터가 손상되었거나 지원되지 않는 버전입니다.',
+  'import.saveNoSlots': '세이브 슬롯 데이터가 없습니다.',
+  'import.jobEntry': '직업 #{index}: {errors}',
+  'import.jobsEmpty': '직업 정의가 비어 있습니다.',
+  'import.recipeList': '레시피 목록은 배열이어야 합니다.',
+  'import.recipeEntry': '레시피 #{index}: {errors}',
+  'import.recipesEmpty': '레시피가 비어 있습니다.',
+  'import.packInvalid': '올바른 프롬프트 팩 파일이 아닙니다.',
+  'import.packMissing': "프롬프트 팩에 '{key}' 항목이 없습니다.",
+  'import.packNotText': "프롬프트 팩의 '{key}' 항목은 문자열이어야 합니다.",
+  'import.packJobPlaceholder': 'startTemplate에는 {{job}} 자리표시자가 필요합니다.',
+  'import.packHudLabels': 'hudLabels 항목이 올바르지 않습니다.',
+  'import.packRecipes': 'recipes 항목이 올바르지 않습니다. {message}',
+
+  // API key modal
+  'apiKey.title': 'SYSTEM ACCESS REQUIRED',
+  'apiKey.introBefore': '',
+  'apiKey.introAfter': ' 을(를) 시작하려면 유효한 Gemini API 키가 필요합니다. 키는 암호화되어 이 단말기에만 저장됩니다.',
+  'apiKey.label': 'Enter API Key',
+  'apiKey.getKey': 'API Key 발급받기 (무료)',
+  'apiKey.jsonProtocol': 'STRUCTURED JSON PROTOCOL (BETA)',
+  'apiKey.language': 'LANGUAGE',
+  'apiKey.empty': 'API 키를 입력하십시오.',
+  'apiKey.emptyResponse': '연결은 확인되었지만 응답이 비어 있습니다.',
+  'apiKey.connectError': 'Gemini API 연결 중 오류가 발생했습니다.',
+  'apiKey.success': '[SUCCESS] 연결 성공. 프로토콜 복호화 중...',
+  'apiKey.offline': 'OFFLINE MODE (MOCK GM)',
+  'apiKey.verifying': 'VERIFYING...',
+  'apiKey.reconnect': 'RE-CONNECT',
+  'apiKey.initialize': 'INITIALIZE',
+};
+
+export type TranslationKey = keyof typeof ko;
+
+const en: Record<TranslationKey, string> = {
+  'intro.subtitle': 'Post-Apocalyptic Survival Simulation',
+  'intro.tagline': 'Seoul, 2045. No Plot Armor. No Mercy.',
+  'intro.warning': 'SYSTEM WARNING:',
+  'intro.warningViolence': 'This simulation contains graphical descriptions of violence and trauma.',
+  'intro.warningRng': 'RNG is absolute. Death is permanent.',
+  'intro.warningChoices': 'Your choices determine your survival.',
+  'intro.connect': 'CONNECT TO SERVER',
+  'resume.title': '▶ RESUME LAST SESSION',
+  'resume.turns': '{count} TURNS',
+  'resume.source': 'LAST SESSION',
+
+  'selection.title': 'INITIALIZATION SEQUENCE',
+  'selection.zeroHour': 'ZERO HOUR',
+  'selection.zeroHourDesc': 'Start a new timeline. Random start. High morality risk.',
+  'selection.legacy': 'LEGACY ACCESS',
+  'selection.perkCount': '{count} PERKS',
+  'selection.legacyDesc': 'Apply Perks from previous survival records.',
+  'selection.promptPack': 'Prompt Pack',
+  'selection.loadPack': '[ LOAD .JSON ]',
+  'selection.gmLanguage': 'GM Language',
+  'selection.loadSave': '[ LOAD SAVE DATA ]',
+  'selection.archive': '[ DEATH RECORDS ({count}) ]',
+  'common.returnToTitle': '[ RETURN TO TITLE ]',
+  'common.back': '[ BACK ]',
+
+  'perk.title': 'LEGACY DATABASE',
+  'perk.subtitle': 'Select one perk to initialize this timeline.',
+  'job.title': 'SELECT CLASS',
+  'job.mode': 'Mode: {mode}',
+  'job.modeLegacy': 'Legacy [{perk}]',
+  'job.modeZero': 'Zero Hour (Fresh Start)',
+  'job.Mercenary.name': 'MERCENARY',
+  'job.Mercenary.desc': 'Combat specialist. High endurance and weapon proficiency.',
+  'job.Technician.name': 'TECHNICIAN',
+  'job.Technician.desc': 'Master of machines and hacking. Controls the gear of the ruins.',
+  'job.Doctor.name': 'DOCTOR',
+  'job.Doctor.desc': 'Medical knowledge and chemical synthesis for survival.',
+  'job.Scavenger.name': 'SCAVENGER',
+  'job.Scavenger.desc': 'Survival expert specialized in stealth and searching.',
+  'job.custom': 'CUSTOM',
+  'job.equipmentPool': 'Gear pool: {items}',
+  'job.openEditor': '[ CLASS EDITOR ]',
+  'seed.label': 'Run seed',
+  'seed.placeholder': 'Leave empty for random',
+  'seed.random': '[ RANDOM ]',
+  'seed.current': 'SEED {seed}',
+  'seed.copy': '[COPY]',
+  'jobEditor.title': 'CLASS EDITOR',
+  'jobEditor.customCount': '{count} CUSTOM',
+  'jobEditor.builtin': 'BUILT-IN',
+  'jobEditor.edit': 'EDIT',
+  'jobEditor.duplicate': 'DUP',
+  'jobEditor.copySuffix': '(COPY)',
+  'jobEditor.export': 'EXP',
+  'jobEditor.exportHint': 'Export as .json',
+  'jobEditor.delete': 'DEL',
+  'jobEditor.name': 'NAME',
+  'jobEditor.description': 'DESCRIPTION',
+  'jobEditor.tags': 'STARTING TAGS: [전투], [화기]',
+  'jobEditor.equipment': 'EQUIPMENT POOL (ONE PER LINE)',
+  'jobEditor.cancel': 'CANCEL',
+  'jobEditor.save': 'SAVE CLASS',
+  'jobEditor.new': '+ NEW CLASS',
+  'jobEditor.empty': 'No Custom Classes',
+  'jobEditor.paste': 'PASTE CLASS JSON...',
+  'jobEditor.importPasted': 'Import Pasted',
+  'jobEditor.importFile': 'Import .json',
+  'jobEditor.copy': 'Copy JSON',
+  'jobEditor.exportAll': 'Export All',
+  'jobEditor.close': 'Close Editor',
+  'jobEditor.saved': "'{name}' saved",
+  'jobEditor.deleted': "'{name}' deleted",
+  'jobEditor.copied': 'Copied to clipboard',
+  'jobEditor.copyFailed': 'Clipboard copy failed',
+  'jobEditor.imported': '{count} classes imported',
+  'jobEditor.deleteTitle': 'DELETE CLASS?',
+  'jobEditor.deleteMessage': "Deletes the '{name}' class definition. Runs already started are not affected.",
+  'jobEditor.deleteConfirm': 'DELETE',
+  'validation.notObject': '{path}: not an object',
+  'validation.required': '{path}: required',
+  'validation.notText': '{path}: must be a string',
+  'validation.notTextList': '{path}: must be a list of strings',
+  'validation.emptyList': '{path}: needs at least one item',
+  'validation.rangeShape': '{path}: must be [min, max] integers',
+  'validation.rangeOrder': '{path}: min is greater than max',
+  'validation.rangeBounds': '{path}: must stay within {min}-{max}',
+  'validation.positiveInt': '{path}: must be a positive integer',
+  'validation.notBoolean': '{path}: must be true or false',
+
+  'prologue.line1': 'Seoul, 2045.',
+  'prologue.line2': 'Twenty years since the fires of nuclear war swallowed everything...',
+  'prologue.line3': 'Order has collapsed. Survival is the only law left.',
+  'prologue.line4': 'Your story... begins now.',
+  'prologue.generating': 'GENERATING WORLD STATE...',
+  'prologue.start': '[ SIMULATION START ]',
+
+  'hud.active': 'ACTIVE',
+  'hud.hp': 'HP',
+  'hud.mental': 'MENTAL',
+  'hud.parameters': 'Parameters',
+  'hud.analyzing': 'Analyzing subject...',
+  'hud.tags': 'Tags',
+  'hud.none': 'None',
+  'hud.equipment': 'Equipment',
+  'hud.empty': 'Empty',
+  'hud.log': 'Log Data',
+  'hud.noUpdates': 'No critical updates.',
+  'status.title': 'Conditions',
+  'status.new': 'NEW',
+  'status.resolved': 'resolved',
+  'status.remaining': '{turns} turns left',
+  'status.overdue': '{turns} turns overdue',
+  'status.untilTreated': 'until treated',
+  'status.dropped': 'unmentioned since T{turn}',
+  'status.droppedHint': 'The GM dropped this from your tags without resolving it. It may still be affecting you.',
+  'status.severity.mild': 'Mild',
+  'status.severity.moderate': 'Moderate',
+  'status.severity.severe': 'Severe',
+  'map.title': 'Map',
+  'map.unknown': 'Unknown location',
+  'map.river': 'HAN RIVER',
+  'map.noVisits': 'No places recorded yet.',
+  'sidebar.hud': 'HUD',
+  'sidebar.codex': 'Codex ({count})',
+  'sidebar.journal': 'Quests ({count})',
+  'sidebar.craft': 'Craft ({count})',
+  'craft.button': 'Craft',
+  'craft.missing': 'Missing: {items}',
+  'craft.consumes': 'Uses: {items}',
+  'craft.tools': 'Tools: {items}',
+  'craft.imported': '{count} imported recipes',
+  'craft.import': 'Import recipes',
+  'craft.clear': 'Remove imported',
+  'craft.clearTitle': 'Remove imported recipes',
+  'craft.clearMessage': 'Removes {count} imported recipes. Built-in and prompt pack recipes stay.',
+  'craft.action': '[{skill}] Craft: {recipe} | Consumes: {consumes} | Tools: {tools} | Result: {output}',
+  'journal.empty': 'No quests recorded.',
+  'journal.started': 'Started T{turn}',
+  'journal.span': 'T{start} → T{end}',
+  'journal.status.active': 'Active',
+  'journal.status.completed': 'Completed',
+  'journal.status.failed': 'Failed',
+  'codex.filter.all': 'All',
+  'codex.filter.npc': 'People',
+  'codex.filter.faction': 'Factions',
+  'codex.faction': 'FACTION',
+  'codex.empty': 'No people or factions met yet.',
+  'codex.lastSeen': 'Last seen: {place} (T{turn})',
+  'codex.firstMet': 'First met: T{turn}',
+  'codex.disposition.hostile': 'Hostile',
+  'codex.disposition.wary': 'Wary',
+  'codex.disposition.neutral': 'Neutral',
+  'codex.disposition.friendly': 'Friendly',
+  'codex.disposition.ally': 'Ally',
+  'codex.disposition.unknown': 'Unknown',
+  'stat.physical': 'Physical',
+  'stat.survival': 'Survival',
+  'stat.charisma': 'Charisma',
+  'menu.system': '[ SYSTEM MENU ]',
+
+  'config.title': 'System Config',
+  'config.visualMode': 'Visual Mode',
+  'config.digital': 'Digital',
+  'config.clean': 'Clean',
+  'config.retro': 'Retro',
+  'config.typeface': 'Typeface',
+  'config.sans': 'Sans',
+  'config.serif': 'Serif',
+  'config.mono': 'Mono',
+  'config.textSize': 'Text Size',
+  'config.rewind': 'Rewind',
+  'config.allowed': 'Allowed',
+  'config.hardcore': 'Hardcore',
+  'config.rewindHint': 'Applies to runs started from now on.',
+  'config.language': 'Language',
+
+  'memory.title': 'Context Memory',
+  'memory.fullHistory': 'FULL HISTORY',
+  'memory.sentContext': 'SENT CONTEXT',
+  'memory.summary': 'SUMMARY',
+  'memory.summarized': 'SUMMARIZED',
+  'memory.messages': '{covered} / {total} msgs',
+  'memory.none': 'No summary yet.',
+  'memory.compress': 'Compress Now',
+
+  'tag.close': 'Close Data',
+  'tag.decoding': 'Decrypting database... [ACCESSING GM NODE]',
+  'tag.legacyTitle': '[Inherited Memory: {tag}]',
+  'tag.legacyDesc': 'A unique ability inherited from the survival record of a previous run.',
+  'tag.abilityTitle': '[Ability Analysis: {tag}]',
+  'tag.statusTitle': '[Status Analysis: {tag}]',
+  'tag.statusDesc': "An active variable affecting the simulation or the player's physical/mental state.",
+
+  'chat.reroll': '[↻ REROLL]',
+  'chat.rewind': '[⟲ REWIND]',
+  'chat.rewindHint': 'Rewind to this point',
+  'chat.freeAction': 'Free action',
+  'chat.placeholder': 'What do you do?',
+  'chat.stop': 'Stop',
+  'chat.act': 'Act',
+  'chat.footer': 'PROJECT: SEOUL FALLOUT | PROTOTYPE BUILD',
+
+  // Inventory
+  'inventory.category.weapon': 'WPN',
+  'inventory.category.armor': 'ARM',
+  'inventory.category.medical': 'MED',
+  'inventory.category.food': 'FOOD',
+  'inventory.category.tool': 'TOOL',
+  'inventory.category.misc': 'MISC',
+  'inventory.use': 'Use',
+  'inventory.drop': 'Drop',
+  'inventory.inspect': 'Inspect',
+  'inventory.action.use': '[Use] I use one {item} from my inventory.',
+  'inventory.action.drop': '[Drop] I drop the {item}.',
+  'inventory.action.inspect': '[Inspect] I examine the {item} closely.',
+  'inventory.appearedHint': 'Appeared without explanation',
+  'inventory.vanished': 'Gone: {items}',
+  'inventory.vanishedHint': 'Left the HUD without explanation',
+  'inventory.mismatch': '[INVENTORY MISMATCH] appeared: {appeared} / gone: {vanished}',
+
+  // Skill checks
+  'check.line': 'Check: {skill} {modifier}, d20={roll} → {outcome}',
+  'check.general': 'General',
+  'check.critical-success': 'Critical success',
+  'check.success': 'Success',
+  'check.failure': 'Failure',
+  'check.critical-failure': 'Critical failure',
+
+  'save.defaultName': '{job} - Turn {turn}',
+  'save.survivor': 'Survivor',
+  'save.importConflictTitle': 'OVERWRITE SAVES?',
+  'save.importConflictMessage': '{count} imported save(s) share an id with existing saves: {names}\nOverwriting replaces their current progress.',
+  'save.importOverwrite': 'OVERWRITE',
+  'save.managerTitle': 'SYSTEM MEMORY',
+  'save.loadTitle': 'LOAD MEMORY',
+  'save.count': '{count} SAVES',
+  'save.new': 'New Save',
+  'save.search': 'SEARCH...',
+  'save.newest': 'NEWEST ▼',
+  'save.oldest': 'OLDEST ▲',
+  'save.deleteSelected': 'DEL ({count})',
+  'save.empty': 'No Data Blocks',
+  'save.noMatches': 'No Matches',
+  'save.load': 'LOAD',
+  'save.overwrite': 'OVERWRITE',
+  'save.export': 'EXP',
+  'save.exportHint': 'Export as .json',
+  'save.delete': 'DEL',
+  'save.import': 'Import .json',
+  'save.exportAll': 'Export All',
+  'save.close': 'Close System',
+  'save.overwriteTitle': 'OVERWRITE SAVE?',
+  'save.overwriteMessage': "Overwrite '{name}' with the current progress.",
+  'save.deleteTitle': 'DELETE SAVE DATA?',
+  'save.deleteMessage': 'Permanently delete {count} save(s)? This cannot be undone.',
+  'save.deleteConfirm': 'DELETE',
+
+  // Game over / run archive
+  'gameOver.signalLost': 'SIGNAL LOST',
+  'gameOver.complete': 'SIMULATION COMPLETE',
+  'gameOver.deathRecord': '[DEATH RECORD]',
+  'gameOver.ending': '[ENDING]',
+  'gameOver.endingTitled': '[ENDING: {title}]',
+  'gameOver.identCode': 'ID Code',
+  'gameOver.turns': 'Turns Survived',
+  'gameOver.perks': 'Perks Earned',
+  'gameOver.cause': 'Cause:',
+  'gameOver.noRecord': 'No record',
+  'gameOver.objectives': 'Objectives Completed',
+  'gameOver.legacy': 'Legacy Acquired',
+  'gameOver.newSimulation': '[ NEW SIMULATION ]',
+  'archive.title': 'RUN ARCHIVE',
+  'archive.count': '{count} RECORDS ON FILE',
+  'archive.job': 'CLASS',
+  'archive.outcome': 'OUTCOME',
+  'archive.all': 'ALL',
+  'archive.death': 'DEATH',
+  'archive.ending': 'ENDING',
+  'archive.empty': 'NO RECORDS FOUND',
+  'archive.finalHud': 'Final HUD',
+  'archive.objectives': 'OBJECTIVES: {list}',
+  'archive.legacy': 'LEGACY: {list}',
+  'archive.showTranscript': '[ SHOW TRANSCRIPT ({count}) ]',
+  'archive.hideTranscript': '[ HIDE TRANSCRIPT ]',
+
+  'flash.noPerks': 'No perks acquired yet. (No Legacy Data)',
+  'flash.packLoaded': '[SYSTEM] PROMPT PACK LOADED: {name} v{version}',
+  'flash.seedCopied': '[SYSTEM] SEED {seed} COPIED',
+  'flash.seedCopyFailed': 'Clipboard unavailable. Seed: {seed}',
+  'flash.packImportFailed': '[ERROR] PROMPT PACK IMPORT FAILED: {message}',
+  'flash.recipesLoaded': '[SYSTEM] {count} RECIPES ADDED',
+  'flash.recipesImportFailed': '[ERROR] RECIPE IMPORT FAILED: {message}',
+  'flash.packReservedId': 'The id of a built-in prompt pack cannot be reused.',
+  'flash.packMissing': '[WARN] PROMPT PACK {missing} MISSING: USING {used}',
+  'flash.newLegacy': '[SYSTEM] NEW LEGACY ACQUIRED: {perk}',
+  'flash.memoryCompressed': '[SYSTEM] MEMORY COMPRESSED: {count} MESSAGES SUMMARIZED',
+  'flash.memoryFailed': '[ERROR] MEMORY COMPRESSION FAILED',
+  'flash.rerollFailed': '[ERROR] REROLL FAILED',
+  'flash.rewound': '[SYSTEM] TIMELINE REWOUND TO TURN {turn}',
+  'flash.rewindFailed': '[ERROR] FAILED TO REWIND SESSION',
+  'flash.saved': '[SYSTEM] DATA SAVED: {name}',
+  'flash.overwritten': '[SYSTEM] DATA OVERWRITTEN: {name}',
+  'flash.restored': '[SYSTEM] SIMULATION RESTORED FROM {source}',
+  'flash.restoreFailed': '[ERROR] FAILED TO RESTORE SESSION',
+  'flash.imported': '[SYSTEM] IMPORTED {count} SAVE(S)',
+  'flash.importFailed': '[ERROR] IMPORT FAILED: {message}',
+  'system.initFailed': '[ERROR] SYSTEM FAILURE during initialization.',
+  'system.connectionLost': '[ERROR] Connection lost. Retrying data packet...',
+  'storage.title': '[STORAGE ERROR]',
+  'storage.loadFailed': 'Could not load stored data.',
+  'storage.quota': 'Storage is full. Delete old saves or archive records.',
+  'storage.writeFailed': 'Save failed: {message}',
+  'common.unknownError': 'Unknown error',
+  'common.unknownJob': 'Unknown class',
+  'common.verdict': '[GM VERDICT]',
+  'import.invalidJson': 'Could not read the JSON file.',
+  'import.saveInvalid': 'Not a valid save file.',
+  'import.saveCorrupt': 'The save data is damaged or from an unsupported version.',
+  'import.saveNoSlots': 'The backup has no save slots.',
+  'import.jobEntry': 'Class #{index}: {errors}',
+  'import.jobsEmpty': 'The file has no class definitions.',
+  'import.recipeList': 'The recipe list must be an array.',
+  'import.recipeEntry': 'Recipe #{index}: {errors}',
+  'import.recipesEmpty': 'The file has no recipes.',
+  'import.packInvalid': 'Not a valid prompt pack file.',
+  'import.packMissing': "The prompt pack has no '{key}'.",
+  'import.packNotText': "'{key}' in the prompt pack must be a string.",
+  'import.packJobPlaceholder': 'startTemplate needs the {{job}} placeholder.',
+  'import.packHudLabels': 'hudLabels is malformed.',
+  'import.packRecipes': 'recipes is malformed. {message}',
+
+  'apiKey.title': 'SYSTEM ACCESS REQUIRED',
+  'apiKey.introBefore': 'To initialize ',
+  'apiKey.introAfter': ', a valid Gemini API key is required. The key will be encrypted and stored locally on your terminal.',
+  'apiKey.label': 'Enter API Key',
+  'apiKey.getKey': 'Get an API key (free)',
+  'apiKey.jsonProtocol': 'STRUCTURED JSON PROTOCOL (BETA)',
+  'apiKey.language': 'LANGUAGE',
+  'apiKey.empty': 'API Key cannot be empty.',
+  'apiKey.emptyResponse': 'Connection verified but returned empty response.',
+  'apiKey.connectError': 'Error connecting to Gemini API.',
+  'apiKey.success': '[SUCCESS] Connection Established. Decrypting protocol...',
+  'apiKey.offline': 'OFFLINE MODE (MOCK GM)',
+  'apiKey.verifying': 'VERIFYING...',
+  'apiKey.reconnect': 'RE-CONNECT',
+  'apiKey.initialize': 'INITIALIZE',
+};
+
+const ja: Record<TranslationKey, string> = {
+  'intro.subtitle': 'ポストアポカリプス・サバイバル・シミュレーション',
+  'intro.tagline': '2045年、ソウル。主人公補正なし。容赦なし。',
+  'intro.warning': 'SYSTEM WARNING:',
+  'intro.warningViolence': 'このシミュレーションには暴力とトラウマの生々しい描写が含まれます。',
+  'intro.warningRng': 'RNGは絶対です。死は永久です。',
+  'intro.warningChoices': 'あなたの選択が生存を決定します。',
+  'intro.connect': 'サーバーに接続',
+  'resume.title': '▶ 前回のセッションを再開',
+  'resume.turns': '{count} ターン',
+  'resume.source': '前回のセッション',
+
+  'selection.title': 'INITIALIZATION SEQUENCE',
+  'selection.zeroHour': 'ZERO HOUR',
+  'selection.zeroHourDesc': '新しいタイムラインを開始。ランダムスタート。高い倫理的リスク。',
+  'selection.legacy': 'LEGACY ACCESS',
+  'selection.perkCount': '特典 {count}',
+  'selection.legacyDesc': '過去の生存記録から特典を適用します。',
+  'selection.promptPack': 'プロンプトパック',
+  'selection.loadPack': '[ .JSON 読込 ]',
+  'selection.gmLanguage': 'GM 言語',
+  'selection.loadSave': '[ セーブデータ読込 ]',
+  'selection.archive': '[ 死亡記録 ({count}) ]',
+  'common.returnToTitle': '[ タイトルに戻る ]',
+  'common.back': '[ 戻る ]',
+
+  'perk.title': 'LEGACY DATABASE',
+  'perk.subtitle': 'このタイムラインに適用する特典を1つ選択してください。',
+  'job.title': '職業選択 (SELECT CLASS)',
+  'job.mode': 'モード: {mode}',
+  'job.modeLegacy': '継承適用 [{perk}]',
+  'job.modeZero': 'ゼロアワー (初期化)',
+  'job.Mercenary.name': '傭兵 (MERCENARY)',
+  'job.Mercenary.desc': '戦闘の専門家。高い体力と武器の熟練度。',
+  'job.Technician.name': '技術者 (TECHNICIAN)',
+  'job.Technician.desc': '機械とハッキングの達人。廃墟の装置を制御する。',
+  'job.Doctor.name': '医者 (DOCTOR)',
+  'job.Doctor.desc': '生き残るための医療知識と化学物質の調合。',
+  'job.Scavenger.name': 'スカベンジャー (SCAVENGER)',
+  'job.Scavenger.desc': '隠密と探索に特化したサバイバルの専門家。',
+  'job.custom': 'カスタム',
+  'job.equipmentPool': '装備プール: {items}',
+  'job.openEditor': '[ 職業エディター ]',
+  'seed.label': 'ランシード',
+  'seed.placeholder': '空欄でランダム',
+  'seed.random': '[ ランダム ]',
+  'seed.current': 'シード {seed}',
+  'seed.copy': '[コピー]',
+  'jobEditor.title': '職業エディター',
+  'jobEditor.customCount': 'カスタム {count}件',
+  'jobEditor.builtin': '基本',
+  'jobEditor.edit': '編集',
+  'jobEditor.duplicate': '複製',
+  'jobEditor.copySuffix': '(コピー)',
+  'jobEditor.export': '書出',
+  'jobEditor.exportHint': '.jsonで書き出す',
+  'jobEditor.delete': '削除',
+  'jobEditor.name': '名前',
+  'jobEditor.description': '説明',
+  'jobEditor.tags': '開始タグ: [전투], [화기]',
+  'jobEditor.equipment': '装備プール (1行に1つ)',
+  'jobEditor.cancel': 'キャンセル',
+  'jobEditor.save': '職業を保存',
+  'jobEditor.new': '+ 新しい職業',
+  'jobEditor.empty': 'カスタム職業なし',
+  'jobEditor.paste': '職業JSONを貼り付け...',
+  'jobEditor.importPasted': '貼り付けを読込',
+  'jobEditor.importFile': '.json読込',
+  'jobEditor.copy': 'JSONコピー',
+  'jobEditor.exportAll': '全て書出',
+  'jobEditor.close': 'エディターを閉じる',
+  'jobEditor.saved': '「{name}」を保存しました',
+  'jobEditor.deleted': '「{name}」を削除しました',
+  'jobEditor.copied': 'クリップボードにコピーしました',
+  'jobEditor.copyFailed': 'クリップボードにコピーできません',
+  'jobEditor.imported': '{count}件の職業を読み込みました',
+  'jobEditor.deleteTitle': '職業を削除',
+  'jobEditor.deleteMessage': '「{name}」の職業定義を削除します。開始済みのランには影響しません。',
+  'jobEditor.deleteConfirm': '削除',
+  'validation.notObject': '{path}: オブジェクトではありません',
+  'validation.required': '{path}: 必須です',
+  'validation.notText': '{path}: 文字列である必要があります',
+  'validation.notTextList': '{path}: 文字列のリストである必要があります',
+  'validation.emptyList': '{path}: 少なくとも1つ必要です',
+  'validation.rangeShape': '{path}: [最小, 最大] の整数である必要があります',
+  'validation.rangeOrder': '{path}: 最小値が最大値より大きいです',
+  'validation.rangeBounds': '{path}: {min}-{max} の範囲である必要があります',
+  'validation.positiveInt': '{path}: 正の整数である必要があります',
+  'validation.notBoolean': '{path}: true か false である必要があります',
+
+  'prologue.line1': '2045年、ソウル。',
+  'prologue.line2': '核戦争の炎がすべてを呑み込んでから20年…',
+  'prologue.line3': '秩序は崩れ、生存だけが唯一の法となった。',
+  'prologue.line4': 'あなたの物語が…今、始まる。',
+  'prologue.generating': 'ワールド生成中...',
+  'prologue.start': '[ シミュレーション開始 ]',
+
+  'hud.active': 'ACTIVE',
+  'hud.hp': 'HP',
+  'hud.mental': 'メンタル',
+  'hud.parameters': 'パラメータ',
+  'hud.analyzing': '対象を分析中...',
+  'hud.tags': 'タグ',
+  'hud.none': 'なし',
+  'hud.equipment': '装備',
+  'hud.empty': '空',
+  'hud.log': 'ログデータ',
+  'hud.noUpdates': '重大な更新なし。',
+  'status.title': '状態異常',
+  'status.new': 'NEW',
+  'status.resolved': '回復',
+  'status.remaining': '残り{turns}ターン',
+  'status.overdue': '{turns}ターン超過',
+  'status.untilTreated': '要治療',
+  'status.dropped': 'T{turn}から言及なし',
+  'status.droppedHint': 'GMが回復の描写なしにタグから外した状態異常です。まだ残っているかもしれません。',
+  'status.severity.mild': '軽度',
+  'status.severity.moderate': '中度',
+  'status.severity.severe': '重度',
+  'map.title': 'マップ',
+  'map.unknown': '位置不明',
+  'map.river': '漢江',
+  'map.noVisits': 'まだ記録された場所はありません。',
+  'sidebar.hud': 'HUD',
+  'sidebar.codex': 'コーデックス ({count})',
+  'sidebar.journal': 'クエスト ({count})',
+  'sidebar.craft': '製作 ({count})',
+  'craft.button': '製作',
+  'craft.missing': '不足: {items}',
+  'craft.consumes': '消費: {items}',
+  'craft.tools': '道具: {items}',
+  'craft.imported': '追加レシピ {count}件',
+  'craft.import': 'レシピ読込',
+  'craft.clear': '追加レシピ削除',
+  'craft.clearTitle': '追加レシピ削除',
+  'craft.clearMessage': '読み込んだレシピ{count}件を削除します。基本レシピとプロンプトパックのレシピは残ります。',
+  'craft.action': '[{skill}] 製作: {recipe} | 消費素材: {consumes} | 道具: {tools} | 結果物: {output}',
+  'journal.empty': '記録されたクエストはありません。',
+  'journal.started': 'T{turn} 開始',
+  'journal.span': 'T{start} → T{end}',
+  'journal.status.active': '進行中',
+  'journal.status.completed': '完了',
+  'journal.status.failed': '失敗',
+  'codex.filter.all': '全て',
+  'codex.filter.npc': '人物',
+  'codex.filter.faction': '勢力',
+  'codex.faction': '勢力',
+  'codex.empty': 'まだ出会った人物や勢力はいません。',
+  'codex.lastSeen': '最後の目撃: {place} (T{turn})',
+  'codex.firstMet': '初登場: T{turn}',
+  'codex.disposition.hostile': '敵対',
+  'codex.disposition.wary': '警戒',
+  'codex.disposition.neutral': '中立',
+  'codex.disposition.friendly': '友好',
+  'codex.disposition.ally': '同盟',
+  'codex.disposition.unknown': '不明',
+  'stat.physical': 'フィジカル',
+  'stat.survival': '生存',
+  'stat.charisma': 'カリスマ',
+  'menu.system': '[ システムメニュー ]',
+
+  'config.title': 'システム設定',
+  'config.visualMode': '表示モード',
+  'config.digital': 'Digital',
+  'config.clean': 'Clean',
+  'config.retro': 'Retro',
+  'config.typeface': '書体',
+  'config.sans': 'Sans',
+  'config.serif': 'Serif',
+  'config.mono': 'Mono',
+  'config.textSize': '文字サイズ',
+  'config.rewind': '巻き戻し',
+  'config.allowed': '許可',
+  'config.hardcore': 'ハードコア',
+  'config.rewindHint': '次に開始するランから適用されます。',
+  'config.language': '言語',
+
+  'memory.title': 'コンテキストメモリ',
+  'memory.fullHistory': '全履歴',
+  'memory.sentContext': '送信コンテキスト',
+  'memory.summary': '要約',
+  'memory.summarized': '要約済み',
+  'memory.messages': '{covered} / {total} 件',
+  'memory.none': 'まだ要約はありません。',
+  'memory.compress': '今すぐ圧縮',
+
+  'tag.close': '閉じる',
+  'tag.decoding': 'データベース復号中... [ACCESSING GM NODE]',
+  'tag.legacyTitle': '[継承された記憶: {tag}]',
+  'tag.legacyDesc': '前回の生存記録から継承された固有能力です。',
+  'tag.abilityTitle': '[能力分析: {tag}]',
+  'tag.statusTitle': '[状態分析: {tag}]',
+  'tag.statusDesc': 'シミュレーション環境またはプレイヤーの心身の状態に影響を与えるアクティブな変数です。',
+
+  'chat.reroll': '[↻ 再生成]',
+  'chat.rewind': '[⟲ 巻き戻し]',
+  'chat.rewindHint': 'この時点まで巻き戻す',
+  'chat.freeAction': '自由行動',
+  'chat.placeholder': 'どうしますか？',
+  'chat.stop': '停止',
+  'chat.act': '実行',
+  'chat.footer': 'PROJECT: SEOUL FALLOUT | PROTOTYPE BUILD',
+
+  // Inventory
+  'inventory.category.weapon': '武器',
+  'inventory.category.armor': '防具',
+  'inventory.category.medical': '医療',
+  'inventory.category.food': '食料',
+  'inventory.category.tool': '道具',
+  'inventory.category.misc': 'その他',
+  'inventory.use': '使用',
+  'inventory.drop': '捨てる',
+  'inventory.inspect': '調べる',
+  'inventory.action.use': '[使用] インベントリの{item}を1つ使う。',
+  'inventory.action.drop': '[捨てる] {item}を捨てる。',
+  'inventory.action.inspect': '[調べる] {item}を詳しく調べる。',
+  'inventory.appearedHint': '説明なく現れたアイテム',
+  'inventory.vanished': '消失: {items}',
+  'inventory.vanishedHint': '説明なくHUDから消えたアイテム',
+  'inventory.mismatch': '[装備の不一致] 出現: {appeared} / 消失: {vanished}',
+
+  // Skill checks
+  'check.line': '判定: {skill} {modifier}, d20={roll} → {outcome}',
+  'check.general': '一般',
+  'check.critical-success': '大成功',
+  'check.success': '成功',
+  'check.failure': '失敗',
+  'check.critical-failure': '大失敗',
+
+  'save.defaultName': '{job} - {turn}ターン',
+  'save.survivor': '生存者',
+  'save.importConflictTitle': 'セーブを上書き',
+  'save.importConflictMessage': '読み込むセーブのうち{count}件が既存のセーブと同じIDです: {names}\n上書きすると既存の進行状況は失われます。',
+  'save.importOverwrite': '上書き',
+  'save.managerTitle': 'システムメモリ',
+  'save.loadTitle': 'メモリ読込',
+  'save.count': 'セーブ {count} 件',
+  'save.new': '新規セーブ',
+  'save.search': '検索...',
+  'save.newest': '新しい順 ▼',
+  'save.oldest': '古い順 ▲',
+  'save.deleteSelected': '削除 ({count})',
+  'save.empty': 'データなし',
+  'save.noMatches': '該当なし',
+  'save.load': 'ロード',
+  'save.overwrite': '上書き',
+  'save.export': '書出',
+  'save.exportHint': '.json で書き出す',
+  'save.delete': '削除',
+  'save.import': '.json を読み込む',
+  'save.exportAll': 'すべて書き出す',
+  'save.close': '閉じる',
+  'save.overwriteTitle': 'セーブを上書きしますか？',
+  'save.overwriteMessage': '「{name}」を現在の進行状況で上書きします。',
+  'save.deleteTitle': 'セーブデータを削除しますか？',
+  'save.deleteMessage': 'セーブ {count} 件を完全に削除します。元に戻せません。',
+  'save.deleteConfirm': '削除',
+
+  // Game over / run archive
+  'gameOver.signalLost': 'SIGNAL LOST',
+  'gameOver.complete': 'SIMULATION COMPLETE',
+  'gameOver.deathRecord': '[死亡記録]',
+  'gameOver.ending': '[エンディング]',
+  'gameOver.endingTitled': '[エンディング: {title}]',
+  'gameOver.identCode': '識別コード',
+  'gameOver.turns': '生存ターン',
+  'gameOver.perks': '獲得特典',
+  'gameOver.cause': '死因:',
+  'gameOver.noRecord': '記録なし',
+  'gameOver.objectives': '達成した目標',
+  'gameOver.legacy': '獲得したレガシー',
+  'gameOver.newSimulation': '[ 新しいシミュレーション ]',
+  'archive.title': '死亡記録 (RUN ARCHIVE)',
+  'archive.count': '記録 {count} 件',
+  'archive.job': '職業',
+  'archive.outcome': '結末',
+  'archive.all': 'すべて',
+  'archive.death': '死亡',
+  'archive.ending': 'エンディング',
+  'archive.empty': '記録がありません',
+  'archive.finalHud': '最終HUD',
+  'archive.objectives': '目標: {list}',
+  'archive.legacy': 'レガシー: {list}',
+  'archive.showTranscript': '[ ログを表示 ({count}) ]',
+  'archive.hideTranscript': '[ ログを隠す ]',
+
+  'flash.noPerks': '獲得した特典がありません。(No Legacy Data)',
+  'flash.packLoaded': '[SYSTEM] プロンプトパック読込: {name} v{version}',
+  'flash.seedCopied': '[SYSTEM] シード {seed} をコピーしました',
+  'flash.seedCopyFailed': 'クリップボードを使えません。シード: {seed}',
+  'flash.packImportFailed': '[ERROR] プロンプトパックを読み込めません: {message}',
+  'flash.recipesLoaded': '[SYSTEM] レシピを{count}件追加しました。',
+  'flash.recipesImportFailed': '[ERROR] レシピを読み込めません: {message}',
+  'flash.packReservedId': '組み込みプロンプトパックのidは使用できません。',
+  'flash.packMissing': '[WARN] プロンプトパック {missing} が見つかりません: {used} を使用',
+  'flash.newLegacy': '[SYSTEM] 新たな継承を獲得: {perk}',
+  'flash.memoryCompressed': '[SYSTEM] メモリ圧縮: {count} 件のメッセージを要約',
+  'flash.memoryFailed': '[ERROR] メモリ圧縮に失敗しました',
+  'flash.rerollFailed': '[ERROR] 再生成に失敗しました',
+  'flash.rewound': '[SYSTEM] ターン {turn} まで巻き戻しました',
+  'flash.rewindFailed': '[ERROR] セッションを巻き戻せませんでした',
+  'flash.saved': '[SYSTEM] セーブ完了: {name}',
+  'flash.overwritten': '[SYSTEM] 上書き完了: {name}',
+  'flash.restored': '[SYSTEM] {source} から復元しました',
+  'flash.restoreFailed': '[ERROR] セッションを復元できませんでした',
+  'flash.imported': '[SYSTEM] {count} 件のセーブを読み込みました',
+  'flash.importFailed': '[ERROR] 読み込み失敗: {message}',
+  'system.initFailed': '[ERROR] 初期化中にシステム障害が発生しました。',
+  'system.connectionLost': '[ERROR] 接続が切断されました。データパケットを再送中...',
+  'storage.title': '[STORAGE ERROR]',
+  'storage.loadFailed': '保存データを読み込めませんでした。',
+  'storage.quota': '保存容量が不足しています。古いセーブや記録を削除してください。',
+  'storage.writeFailed': '保存失敗: {message}',
+  'common.unknownError': '不明なエラー',
+  'common.unknownJob': '職業不明',
+  'common.verdict': '[GMの総評]',
+  'import.invalidJson': 'JSONファイルを読み込めません。',
+  'import.saveInvalid': '正しいセーブファイルではありません。',
+  'import.saveCorrupt': 'セーブデータが破損しているか、対応していないバージョンです。',
+  'import.saveNoSlots': 'セーブスロットのデータがありません。',
+  'import.jobEntry': '職業 #{index}: {errors}',
+  'import.jobsEmpty': '職業定義が空です。',
+  'import.recipeList': 'レシピ一覧は配列である必要があります。',
+  'import.recipeEntry': 'レシピ #{index}: {errors}',
+  'import.recipesEmpty': 'レシピが空です。',
+  'import.packInvalid': '正しいプロンプトパックファイルではありません。',
+  'import.packMissing': 'プロンプトパックに「{key}」がありません。',
+  'import.packNotText': 'プロンプトパックの「{key}」は文字列である必要があります。',
+  'import.packJobPlaceholder': 'startTemplateには{{job}}プレースホルダーが必要です。',
+  'import.packHudLabels': 'hudLabelsが正しくありません。',
+  'import.packRecipes': 'recipesが正しくありません。{message}',
+
+  'apiKey.title': 'SYSTEM ACCESS REQUIRED',
+  'apiKey.introBefore': '',
+  'apiKey.introAfter': ' を起動するには有効な Gemini API キーが必要です。キーは暗号化され、この端末にのみ保存されます。',
+  'apiKey.label': 'API キーを入力',
+  'apiKey.getKey': 'API キーを取得 (無料)',
+  'apiKey.jsonProtocol': 'STRUCTURED JSON PROTOCOL (BETA)',
+  'apiKey.language': '言語',
+  'apiKey.empty': 'API キーを入力してください。',
+  'apiKey.emptyResponse': '接続は確認できましたが、応答が空でした。',
+  'apiKey.connectError': 'Gemini API への接続中にエラーが発生しました。',
+  'apiKey.success': '[SUCCESS] 接続確立。プロトコル復号中...',
+  'apiKey.offline': 'OFFLINE MODE (MOCK GM)',
+  'apiKey.verifying': '確認中...',
+  'apiKey.reconnect': '再接続',
+  'apiKey.initialize': '起動',
+};
+
+const TABLES: Record<Language, Record<TranslationKey, string>> = { ko, en, ja };
+
+export type Translator = (key: TranslationKey, vars?: Record<string, string | number>) => string;
+
+export const createTranslator = (language: Language): Translator => (key, vars) => {
+  const template = TABLES[language][key] ?? ko[key];
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+};
+
+/** Player-facing text for validation issues, one line each. */
+export const describeIssues = (issues: ValidationIssue[], t: Translator): string[] =>
+  issues.map(issue => t(issue.key, issue.params));
+
+// Local tag glossary. A tag matches its name in any language, whatever language the GM writes in.
+const TAG_GLOSSARY: { names: Record<Language, string>; desc: Record<Language, string> }[] = [
+  { names: { ko: '전투', en: 'Combat', ja: '戦闘' }, desc: {
+    ko: '근접 및 각종 전투 상황에서의 대처 능력입니다. 위기 상황에서 생존 확률이 대폭 상승합니다.',
+    en: 'Handling melee and all kinds of combat. Greatly improves the odds of surviving a crisis.',
+    ja: '近接戦闘をはじめ各種戦闘への対処能力です。危機的状況での生存率が大幅に上昇します。',
+  } },
+  { names: { ko: '화기', en: 'Firearms', ja: '火器' }, desc: {
+    ko: '총기류 및 화약 무기를 전문적으로 다루는 능력입니다. 명중률 보정 및 재장전 속도가 빠릅니다.',
+    en: 'Expert handling of guns and explosive weapons. Better accuracy and faster reloads.',
+    ja: '銃器や火薬兵器を専門的に扱う能力です。命中補正があり、リロードも速くなります。',
+  } },
+  { names: { ko: '공학', en: 'Engineering', ja: '工学' }, desc: {
+    ko: '기계 장치, 전자 도어락, 드론 등을 조작하거나 수리하는 기술입니다.',
+    en: 'Operating or repairing machinery, electronic locks, drones and the like.',
+    ja: '機械装置、電子ロック、ドローンなどを操作・修理する技術です。',
+  } },
+  { names: { ko: '해킹', en: 'Hacking', ja: 'ハッキング' }, desc: {
+    ko: '구시대의 보안 시스템을 뚫고 정보를 얻거나 포탑 등을 무력화하는 능력입니다.',
+    en: 'Breaking old-world security systems to steal data or disable turrets.',
+    ja: '旧時代のセキュリティを突破して情報を得たり、砲塔などを無力化する能力です。',
+  } },
+  { names: { ko: '의학', en: 'Medicine', ja: '医学' }, desc: {
+    ko: '응급 처치, 수술, 약물 혼합 등 생명과 직결된 의료 지식입니다.',
+    en: 'Life-or-death medical knowledge: first aid, surgery, mixing drugs.',
+    ja: '応急処置、手術、薬の調合など、命に直結する医療知識です。',
+  } },
+  { names: { ko: '화학', en: 'Chemistry', ja: '化学' }, desc: {
+    ko: '폭발물 제조, 독극물 판별, 마약류 정제 등에 사용되는 지식입니다.',
+    en: 'Knowledge used to make explosives, identify poisons and refine drugs.',
+    ja: '爆発物の製造、毒物の判別、薬物の精製などに使われる知識です。',
+  } },
+  { names: { ko: '은신', en: 'Stealth', ja: '隠密' }, desc: {
+    ko: '적의 시야에서 벗어나 조용히 이동하는 능력입니다. 기습이나 회피에 유리합니다.',
+    en: 'Moving quietly out of sight. Useful for ambushes and evasion.',
+    ja: '敵の視界から外れて静かに移動する能力です。奇襲や回避に有利です。',
+  } },
+  { names: { ko: '탐색', en: 'Search', ja: '探索' }, desc: {
+    ko: '숨겨진 아이템이나 길을 찾는 능력입니다. 물자 부족 상황에서 빛을 발합니다.',
+    en: 'Finding hidden items and paths. Shines when supplies run low.',
+    ja: '隠されたアイテムや道を見つける能力です。物資不足の状況で真価を発揮します。',
+  } },
+];
+
+// Skills and traits come from the glossary, status effects from their catalog
+const findTag = (tag: string) => {
+  const name = tag.replace(/[\[\]]/g, '').trim().toLowerCase();
+  const entry = TAG_GLOSSARY.find(e => Object.values(e.names).some(n => n.toLowerCase() === name));
+  if (entry) return entry;
+  const effect = findStatusEffect(tag);
+  return effect ? { names: effect.names, desc: effect.mechanics } : undefined;
+};
+
+export const lookupTagDescription = (tag: string, language: Language): string | null => {
+  const entry = findTag(tag);
+  return entry ? entry.desc[language] : null;
+};
+
+// "[은신]" -> "[Stealth]"; tags outside the glossary are returned unchanged
+export const localizeTag = (tag: string, language: Language): string => {
+  const entry = findTag(tag);
+  if (!entry) return tag;
+  return tag.includes('[') ? `[${entry.names[language]}]` : entry.names[language];
+};
@@ -0,0 +1,90 @@
+import { InventoryFlags, InventoryItem, ItemCategory } from "../types";
+
+// Checked in order; the first match wins (so "방탄 조끼" is armor before anything else).
+// Medical words are whole words (의약품, 약병) rather than a bare 약, which would catch 탄약 and 화약.
+const CATEGORY_PATTERNS: [RegExp, ItemCategory][] = [
+  [/조끼|방탄|헬멧|갑옷|방호복|방독면|보호대|armor|vest|helmet|gas mask|ベスト|防弾|ヘルメット|防毒マスク/i, 'armor'],
+  [/붕대|진통제|항생제|구급|의료|의약품|약품|약병|알약|해독제|주사|메스|소독|요오드|stimpak|bandage|medkit|painkiller|antibiotic|pill|包帯|鎮痛剤|抗生物質|救急|医薬品|薬品|錠剤|解毒剤/i, 'medical'],
+  [/총|권총|소총|산탄|탄약|탄창|칼|나이프|도끼|석궁|파이프|몽둥이|쇠지렛대|화약|gun|pistol|rifle|shotgun|ammo|gunpowder|knife|axe|blade|crossbow|\bbat\b|crowbar|銃|拳銃|ナイフ|斧|弾|火薬/i, 'weapon'],
+  [/식량|통조림|생수|물병|빵|육포|초콜릿|캔|음식|food|ration|canned|water|jerky|食料|缶詰|水|パン/i, 'food'],
+  [/멀티툴|렌치|라이터|손전등|배터리|무전기|전선|공구|드라이버|로프|지도|태블릿|테이프|케이블|tool|wrench|lighter|flashlight|battery|radio|rope|map|tablet|工具|ライター|懐中電灯|バッテリー|無線|地図/i, 'tool'],
+];
+
+export const categorizeItem = (name: string): ItemCategory =>
+  CATEGORY_PATTERNS.find(([pattern]) => pattern.test(name))?.[1] ?? 'misc';
+
+// Splits on commas / middots / newlines that are not inside parentheses
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(' || char === '（') depth++;
+    if (char === ')' || char === '）') depth = Math.max(0, depth - 1);
+    if (depth === 0 && /[,，、·\n]/.test(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+/**
+ * Parses one entry like "진통제 (2)", "통조림 x3", "방탄 조끼 (손상)" or "녹슨 권총 (탄 4발)".
+ * A bare number in parentheses or an x/×/개 suffix is the quantity; other parentheses are the condition.
+ */
+export const parseInventoryItem = (raw: string): InventoryItem | null => {
+  let name = raw.replace(/^[-*•]\s*/, '').trim();
+  let quantity = 1;
+  const conditions: string[] = [];
+
+  name = name.replace(/[(（]([^()（）]*)[)）]/g, (_, inner: string) => {
+    const value = inner.trim();
+    const count = value.match(/^[x×]?\s*(\d+)\s*(?:개|ea|個)?$/i);
+    if (count) quantity = Number(count[1]);
+    else if (value) conditions.push(value);
+    return ' ';
+  }).trim();
+
+  const suffix = name.match(/\s*(?:[x×]\s*(\d+)|(\d+)\s*(?:개|個))$/i);
+  if (suffix) {
+    quantity = Number(suffix[1] ?? suffix[2]);
+    name = name.slice(0, suffix.index).trim();
+  }
+
+  name = name.replace(/\s+/g, ' ');
+  if (!name || /^(없음|none|なし|-+)$/i.test(name)) return null;
+  return { name, quantity, condition: conditions.length ? conditions.join(', ') : null, category: categorizeItem(name) };
+};
+
+export const parseInventory = (equipment: string | undefined): InventoryItem[] =>
+  equipment
+    ? splitTopLevel(equipment).map(parseInventoryItem).filter((item): item is InventoryItem => !!item)
+    : [];
+
+const nameKey = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+// An item counts as mentioned when its name, or its last word ("녹슨 권총" -> "권총"), appears in the text
+const isMentioned = (item: InventoryItem, text: string): boolean => {
+  const haystack = nameKey(text);
+  const words = item.name.split(' ');
+  return haystack.includes(nameKey(item.name)) || (words.length > 1 && haystack.includes(nameKey(words[words.length - 1])));
+};
+
+/**
+ * Compares the inventory before and after a turn. Changes the player's action or the
+ * GM's narration account for are expected; the rest are flagged for the player to check.
+ * Returns null when there is nothing to compare (opening turn, no HUD) or nothing to flag.
+ */
+export const reconcileInventory = (before: InventoryItem[], after: InventoryItem[], context: string): InventoryFlags | null => {
+  if (before.length === 0) return null;
+  const beforeKeys = new Set(before.map(item => nameKey(item.name)));
+  const afterKeys = new Set(after.map(item => nameKey(item.name)));
+
+  const appeared = after.filter(item => !beforeKeys.has(nameKey(item.name)) && !isMentioned(item, context)).map(item => item.name);
+  const vanished = before.filter(item => !afterKeys.has(nameKey(item.name)) && !isMentioned(item, context)).map(item => item.name);
+  return appeared.length || vanished.length ? { appeared, vanished } : null;
+};
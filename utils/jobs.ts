@@ -0,0 +1,160 @@
+import { JobDefinition, JobValidationReport, StatRange, StatValues, ValidationIssue } from "../types";
+import { isObject, isStringArray, readText, readTextList } from "./guards";
+import { Translator, describeIssues } from "./i18n";
+
+export const JOB_STAT_MIN = 0;
+export const JOB_STAT_MAX = 5;
+const STAT_KEYS: (keyof StatValues)[] = ['physical', 'survival', 'charisma'];
+
+export const BUILTIN_JOBS: JobDefinition[] = [
+  {
+    id: 'Mercenary',
+    name: '용병 (MERCENARY)',
+    description: '전투 전문가. 높은 체력과 무기 숙련도.',
+    startingTags: ['[전투]', '[화기]'],
+    statRanges: { physical: [3, 4], survival: [1, 3], charisma: [1, 2] },
+    equipmentPool: ['녹슨 권총 (탄 4발)', '군용 나이프', '방탄 조끼 (손상)', '전투 식량 1개', '압박 붕대'],
+  },
+  {
+    id: 'Technician',
+    name: '기술자 (TECHNICIAN)',
+    description: '기계와 해킹의 마스터. 폐허 속 장비 제어.',
+    startingTags: ['[공학]', '[해킹]'],
+    statRanges: { physical: [1, 2], survival: [2, 3], charisma: [1, 3] },
+    equipmentPool: ['멀티툴', '개조된 태블릿', '전선 뭉치', '배터리 팩', '렌치'],
+  },
+  {
+    id: 'Doctor',
+    name: '의사 (DOCTOR)',
+    description: '생존을 위한 의료 지식과 화학물질 제조.',
+    startingTags: ['[의학]', '[화학]'],
+    statRanges: { physical: [1, 2], survival: [2, 3], charisma: [2, 4] },
+    equipmentPool: ['구급 상자', '메스', '진통제 (2)', '소독용 알코올', '항생제 (1)'],
+  },
+  {
+    id: 'Scavenger',
+    name: '스캐빈저 (SCAVENGER)',
+    description: '은신과 탐색에 특화된 생존 전문가.',
+    startingTags: ['[은신]', '[탐색]'],
+    statRanges: { physical: [2, 3], survival: [3, 4], charisma: [1, 2] },
+    equipmentPool: ['쇠지렛대', '손전등', '빈 배낭', '라이터', '지하철 노선도'],
+  },
+];
+
+export const isBuiltinJob = (job: JobDefinition): boolean =>
+  BUILTIN_JOBS.some(b => b.id === job.id);
+
+export const createJobId = (): string =>
+  `class-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBlankJob = (): JobDefinition => ({
+  id: createJobId(),
+  name: '',
+  description: '',
+  startingTags: [],
+  statRanges: { physical: [1, 3], survival: [1, 3], charisma: [1, 3] },
+  equipmentPool: [],
+});
+
+// Copy under a new id, so editing never touches the original (built-ins included)
+export const duplicateJob = (job: JobDefinition, suffix: string): JobDefinition => ({
+  ...structuredClone(job),
+  id: createJobId(),
+  name: `${job.name} ${suffix}`.trim(),
+});
+
+/**
+ * Checks a raw class definition against the JobDefinition schema.
+ * Collects every problem instead of stopping at the first one; describeIssues turns them into text.
+ */
+export const validateJobDefinition = (raw: unknown): JobValidationReport => {
+  const errors: ValidationIssue[] = [];
+  if (!isObject(raw)) return { valid: false, errors: [{ key: 'validation.notObject', params: { path: '(root)' } }] };
+
+  (['id', 'name'] as const).forEach(key => {
+    if (typeof raw[key] !== 'string' || !raw[key].trim()) errors.push({ key: 'validation.required', params: { path: key } });
+  });
+  if (typeof raw.description !== 'string') errors.push({ key: 'validation.notText', params: { path: 'description' } });
+  if (!isStringArray(raw.startingTags)) errors.push({ key: 'validation.notTextList', params: { path: 'startingTags' } });
+  if (!isStringArray(raw.equipmentPool)) errors.push({ key: 'validation.notTextList', params: { path: 'equipmentPool' } });
+  else if (raw.equipmentPool.length === 0) errors.push({ key: 'validation.emptyList', params: { path: 'equipmentPool' } });
+
+  if (!isObject(raw.statRanges)) {
+    errors.push({ key: 'validation.required', params: { path: 'statRanges' } });
+  } else {
+    STAT_KEYS.forEach(stat => {
+      const range = raw.statRanges[stat];
+      const path = `statRanges.${stat}`;
+      if (!Array.isArray(range) || range.length !== 2 || !range.every(n => Number.isInteger(n))) {
+        errors.push({ key: 'validation.rangeShape', params: { path } });
+      } else if (range[0] > range[1]) {
+        errors.push({ key: 'validation.rangeOrder', params: { path } });
+      } else if (range[0] < JOB_STAT_MIN || range[1] > JOB_STAT_MAX) {
+        errors.push({ key: 'validation.rangeBounds', params: { path, min: JOB_STAT_MIN, max: JOB_STAT_MAX } });
+      }
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+const normalizeJob = (raw: Record<string, unknown>): JobDefinition => {
+  const ranges = isObject(raw.statRanges) ? raw.statRanges : {};
+  const readRange = (v: unknown): StatRange =>
+    Array.isArray(v) ? [Number(v[0]), Number(v[1])] : [JOB_STAT_MIN, JOB_STAT_MAX];
+  return {
+    id: readText(raw.id),
+    name: readText(raw.name),
+    description: readText(raw.description),
+    startingTags: readTextList(raw.startingTags),
+    statRanges: Object.fromEntries(
+      STAT_KEYS.map(stat => [stat, readRange(ranges[stat])])
+    ) as JobDefinition['statRanges'],
+    equipmentPool: readTextList(raw.equipmentPool),
+  };
+};
+
+// Share format: { kind: 'classes', version, jobs }
+export const JOB_EXPORT_VERSION = 1;
+
+export const createJobExport = (jobs: JobDefinition[]) => ({
+  kind: 'classes' as const,
+  version: JOB_EXPORT_VERSION,
+  jobs,
+});
+
+/**
+ * Parses shared class JSON: the export wrapper, a bare array, or a single definition.
+ * Throws with the collected schema errors when any entry is invalid.
+ */
+export const parseJobImport = (text: string, t: Translator): JobDefinition[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('import.invalidJson'));
+  }
+  const list: unknown[] = isObject(raw) && Array.isArray(raw.jobs) ? raw.jobs
+    : Array.isArray(raw) ? raw
+    : [raw];
+  if (list.length === 0) throw new Error(t('import.jobsEmpty'));
+
+  return list.map((entry, i) => {
+    const report = validateJobDefinition(entry);
+    if (!report.valid || !isObject(entry)) {
+      throw new Error(t('import.jobEntry', { index: i + 1, errors: describeIssues(report.errors, t).join(', ') }));
+    }
+    return normalizeJob(entry);
+  });
+};
+
+const LABELS: Record<keyof StatValues, string> = { physical: '피지컬', survival: '생존', charisma: '카리스마' };
+
+/** Full class sheet for the start prompt, so the GM applies the definition rather than guessing from the name. */
+export const describeJobForPrompt = (job: JobDefinition): string => [
+  `CLASS SHEET: ${job.name}`,
+  `- Description: ${job.description || '-'}`,
+  `- Starting tags (add all to [태그]): ${job.startingTags.join(', ') || '-'}`,
+  `- Starting stats (roll each within range): ${STAT_KEYS.map(s => `${LABELS[s]} ${job.statRanges[s][0]}-${job.statRanges[s][1]}`).join(' | ')}`,
+  `- Equipment pool (pick 2-3 for the starting [장비], damaged or depleted is fine): ${job.equipmentPool.join(', ')}`,
+].join('\n');
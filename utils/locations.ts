@@ -0,0 +1,95 @@
+import { Language, LocationVisit } from "../types";
+
+export interface SeoulDistrict {
+  id: string;
+  names: Record<Language, string>; // short map label
+  fullNames: string[];             // "종로구", "Jongno-gu", "鍾路区"
+  aliases: string[];               // stations, neighbourhoods and landmarks inside the district
+  col: number;                     // schematic tile position (see MAP_COLS / MAP_ROWS)
+  row: number;
+}
+
+// Schematic tile map: rows 0-3 are north of the Han, rows 4-5 south of it
+export const MAP_COLS = 8;
+export const MAP_ROWS = 6;
+export const RIVER_AFTER_ROW = 3;
+
+const district = (id: string, ko: string, en: string, ja: string, col: number, row: number, aliases: string[]): SeoulDistrict => ({
+  id,
+  names: { ko, en, ja },
+  fullNames: [`${ko}구`, `${en}-gu`, `${ja}区`],
+  aliases,
+  col,
+  row,
+});
+
+export const SEOUL_DISTRICTS: SeoulDistrict[] = [
+  district('eunpyeong', '은평', 'Eunpyeong', '恩平', 2, 0, ['연신내', '불광', '진관', 'eunpyeong']),
+  district('gangbuk', '강북', 'Gangbuk', '江北', 4, 0, ['수유', '미아', '북한산', 'gangbuk']),
+  district('dobong', '도봉', 'Dobong', '道峰', 5, 0, ['도봉', '창동', '쌍문', 'dobong']),
+  district('nowon', '노원', 'Nowon', '蘆原', 6, 0, ['노원', '상계', '중계', '태릉', 'nowon']),
+  district('seodaemun', '서대문', 'Seodaemun', '西大門', 2, 1, ['신촌', '연세대', '이대', '홍제', '서대문', 'sinchon', 'seodaemun']),
+  district('jongno', '종로', 'Jongno', '鍾路', 3, 1, ['종로', '광화문', '경복궁', '청와대', '대학로', '혜화', '인사동', '청계천', '서울대병원', 'gwanghwamun', 'jongno']),
+  district('seongbuk', '성북', 'Seongbuk', '城北', 4, 1, ['성북', '길음', '고려대', '돈암', 'seongbuk']),
+  district('dongdaemun', '동대문', 'Dongdaemun', '東大門', 5, 1, ['청량리', '회기', '경희대', '동대문', 'cheongnyangni', 'dongdaemun']),
+  district('jungnang', '중랑', 'Jungnang', '中浪', 6, 1, ['중랑', '망우', '상봉', 'jungnang']),
+  district('mapo', '마포', 'Mapo', '麻浦', 1, 2, ['마포', '홍대', '합정', '상암', '망원', '월드컵경기장', 'hongdae', 'mapo']),
+  district('jung', '중', 'Jung', '中', 3, 2, ['을지로', '명동', '시청', '서울역', '남산', 'ddp', '동대문 DDP', '동대문역사문화공원', '충무로', 'euljiro', 'myeongdong', 'namsan']),
+  district('seongdong', '성동', 'Seongdong', '城東', 5, 2, ['성수', '왕십리', '성동', 'seongsu', 'seongdong']),
+  district('gwangjin', '광진', 'Gwangjin', '広津', 6, 2, ['건대', '구의', '어린이대공원', '광진', 'gwangjin']),
+  district('yongsan', '용산', 'Yongsan', '龍山', 3, 3, ['용산', '이태원', '한남', '삼각지', '미군기지', 'itaewon', 'yongsan']),
+  district('gangseo', '강서', 'Gangseo', '江西', 0, 4, ['김포공항', '마곡', '화곡', '강서', 'gimpo', 'gangseo']),
+  district('yangcheon', '양천', 'Yangcheon', '陽川', 1, 4, ['목동', '양천', 'mokdong', 'yangcheon']),
+  district('yeongdeungpo', '영등포', 'Yeongdeungpo', '永登浦', 2, 4, ['여의도', '국회', '당산', '63빌딩', '영등포', 'yeouido', 'yeongdeungpo']),
+  district('dongjak', '동작', 'Dongjak', '銅雀', 3, 4, ['노량진', '흑석', '사당', '현충원', '동작', 'noryangjin', 'dongjak']),
+  district('seocho', '서초', 'Seocho', '瑞草', 4, 4, ['반포', '양재', '예술의전당', '교대', '서초', 'banpo', 'seocho']),
+  district('gangnam', '강남', 'Gangnam', '江南', 5, 4, ['코엑스', '압구정', '청담', '역삼', '선릉', '강남', 'coex', 'gangnam']),
+  district('songpa', '송파', 'Songpa', '松坡', 6, 4, ['잠실', '롯데월드', '석촌', '가락', '송파', 'jamsil', 'songpa']),
+  district('gangdong', '강동', 'Gangdong', '江東', 7, 4, ['천호', '길동', '암사', '고덕', '강동', 'gangdong']),
+  district('guro', '구로', 'Guro', '九老', 1, 5, ['신도림', '고척', '구로', 'sindorim', 'guro']),
+  district('geumcheon', '금천', 'Geumcheon', '衿川', 2, 5, ['가산', '독산', '금천', 'geumcheon']),
+  district('gwanak', '관악', 'Gwanak', '冠岳', 3, 5, ['서울대', '신림', '봉천', '관악', 'sillim', 'gwanak']),
+];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\-_]/g, '');
+
+// Explicit district names win over landmarks ("동대문 DDP (중구)" is 중구); longer needles first within each pass
+const byLength = (pairs: [string, string][]) => pairs.sort((a, b) => b[0].length - a[0].length);
+const FULL_NAME_NEEDLES = byLength(SEOUL_DISTRICTS.flatMap(d => d.fullNames.map(n => [normalize(n), d.id] as [string, string])));
+const ALIAS_NEEDLES = byLength(SEOUL_DISTRICTS.flatMap(d => d.aliases.map(n => [normalize(n), d.id] as [string, string])));
+
+/** District id for a [위치] value, or null when the place can't be placed on the map. */
+export const matchDistrict = (location: string): string | null => {
+  const haystack = normalize(location);
+  if (!haystack) return null;
+  return (FULL_NAME_NEEDLES.find(([needle]) => haystack.includes(needle))
+    ?? ALIAS_NEEDLES.find(([needle]) => haystack.includes(needle)))?.[1] ?? null;
+};
+
+export const getDistrict = (id: string | null): SeoulDistrict | undefined =>
+  id ? SEOUL_DISTRICTS.find(d => d.id === id) : undefined;
+
+// "-", "없음" and friends mean the GM had nothing to report
+export const isKnownLocation = (location: string | undefined): location is string =>
+  !!location && !/^(-+|\?+|없음|불명|none|unknown|不明|なし)$/i.test(location.trim());
+
+/** Adds `location` as a new visit unless it is already on the list. */
+export const recordVisit = (visits: LocationVisit[], location: string | undefined, turn: number): LocationVisit[] => {
+  if (!isKnownLocation(location)) return visits;
+  const name = location.trim();
+  if (visits.some(v => v.name === name)) return visits;
+  return [...visits, { name, district: matchDistrict(name), turn }];
+};
+
+/** Appended to the player's action so the GM keeps its geography straight. */
+export const formatLocationForPrompt = (current: string | undefined, visits: LocationVisit[]): string | null => {
+  if (!isKnownLocation(current)) return null;
+  const here = getDistrict(matchDistrict(current));
+  const named = here?.fullNames.some(n => normalize(current).includes(normalize(n)));
+  const elsewhere = visits.filter(v => v.name !== current.trim()).slice(-6).map(v => v.name);
+  return [
+    `[현재 위치] ${current.trim()}${here && !named ? ` (${here.fullNames[0]})` : ''}`,
+    elsewhere.length > 0 ? `[방문한 곳] ${elsewhere.join(', ')}` : null,
+    `(Keep the geography of Seoul consistent with this position; travelling between districts takes time and passes through the places in between.)`,
+  ].filter(Boolean).join('\n');
+};
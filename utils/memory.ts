@@ -0,0 +1,128 @@
+import { CampaignMemory, GameState, Message } from "../types";
+
+// Compression kicks in once this many messages sit outside the summary...
+export const MEMORY_COMPRESS_THRESHOLD = 24;
+// ...and always keeps this many recent messages verbatim
+export const MEMORY_RECENT_WINDOW = 10;
+
+/**
+ * Rough token estimate: Hangul/CJK characters are ~1 token each,
+ * everything else ~4 characters per token. Good enough for a debug readout.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[ㄱ-힝一-鿿぀-ヿ]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+export const estimateHistoryTokens = (messages: Message[]): number =>
+  messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+export const shouldCompress = (messages: Message[], memory: CampaignMemory | null): boolean => {
+  const covered = memory ? memory.summarizedCount : 0;
+  return messages.length - covered >= MEMORY_COMPRESS_THRESHOLD;
+};
+
+// Index up to which messages get folded into the summary (exclusive).
+// Never splits a user action from its GM answer.
+export const getCompressionCutoff = (messages: Message[]): number => {
+  let cutoff = Math.max(0, messages.length - MEMORY_RECENT_WINDOW);
+  while (cutoff > 0 && messages[cutoff] && messages[cutoff].role !== 'user') cutoff--;
+  return cutoff;
+};
+
+export const formatTranscript = (messages: Message[]): string =>
+  messages
+    .filter(m => m.role !== 'system')
+    .map(m => `${m.role === 'user' ? 'PLAYER' : 'GM'}: ${m.content}`)
+    .join('\n\n');
+
+/**
+ * Reads the summarizer output format:
+ *   [줄거리] ...
+ *   [NPC] a; b
+ *   [퀘스트] a; b
+ *   [부상] a; b
+ * Text without section headers is treated as the summary itself.
+ */
+export const parseSummaryOutput = (text: string): Pick<CampaignMemory, 'summary' | 'facts'> => {
+  const section = (label: string): string | null => {
+    const m = text.match(new RegExp(`\\[${label}\\]\\s*([\\s\\S]*?)(?=\\n\\s*\\[(?:줄거리|NPC|퀘스트|부상)\\]|$)`));
+    return m ? m[1].trim() : null;
+  };
+  const list = (label: string): string[] =>
+    (section(label) || '')
+      .split(/[;\n]/)
+      .map(s => s.replace(/^[-*•]\s*/, '').trim())
+      .filter(s => s && s !== '-' && s !== '없음');
+
+  return {
+    summary: section('줄거리') ?? text.trim(),
+    facts: {
+      npcs: list('NPC'),
+      quests: list('퀘스트'),
+      injuries: list('부상'),
+    },
+  };
+};
+
+/**
+ * Local stand-in summarizer (offline / mock provider, or when the model call fails):
+ * keeps the opening sentence of every GM turn.
+ */
+export const localSummarize = (previousSummary: string, messages: Message[]): string => {
+  const previous = parseSummaryOutput(previousSummary);
+  const beats = messages
+    .filter(m => m.role === 'model')
+    .map(m => (m.content.split(/(?<=[.!?。])\s+|\n/)[0] || '').trim())
+    .filter(Boolean);
+  return describeMemory({
+    summary: [previous.summary, ...beats].filter(Boolean).join(' '),
+    facts: previous.facts,
+  });
+};
+
+// Summary + facts in the summarizer's own format (fed back in as the previous summary)
+export const describeMemory = (memory: Pick<CampaignMemory, 'summary' | 'facts'>): string => [
+  `[줄거리] ${memory.summary}`,
+  `[NPC] ${memory.facts.npcs.join('; ') || '-'}`,
+  `[퀘스트] ${memory.facts.quests.join('; ') || '-'}`,
+  `[부상] ${memory.facts.injuries.join('; ') || '-'}`,
+].join('\n');
+
+const formatHud = (hud: Partial<GameState>): string => [
+  `HP: ${hud.hp || '?'} | 멘탈: ${hud.mental || '?'}`,
+  `스탯: ${hud.stats || '?'}`,
+  `태그: ${hud.tags && hud.tags.length > 0 ? hud.tags.join(', ') : '-'}`,
+  `장비: ${hud.equipment || '-'}`,
+  `메모: ${hud.notes || '-'}`,
+  `위치: ${hud.location || '-'}`,
+].join('\n');
+
+export const formatMemoryBlock = (memory: CampaignMemory): string => {
+  const lines = [
+    '[SYSTEM] STORY SO FAR (이전 진행 요약 — 이 내용을 사실로 간주하고 이어서 진행하십시오.)',
+    memory.summary,
+  ];
+  if (memory.facts.npcs.length > 0) lines.push(`NPC: ${memory.facts.npcs.join('; ')}`);
+  if (memory.facts.quests.length > 0) lines.push(`퀘스트: ${memory.facts.quests.join('; ')}`);
+  if (memory.facts.injuries.length > 0) lines.push(`부상: ${memory.facts.injuries.join('; ')}`);
+  lines.push('[최신 HUD]', formatHud(memory.pinnedHud));
+  return lines.join('\n');
+};
+
+/**
+ * History to rebuild the chat from: one synthetic preamble carrying the summary and any extra
+ * context blocks (null entries are skipped), followed by every message the summary does not cover.
+ * The preamble is acknowledged only when a user turn follows, so user and model turns keep alternating.
+ */
+export const buildContextHistory = (messages: Message[], memory: CampaignMemory | null, blocks: (string | null)[] = []): Message[] => {
+  const summarized = !!memory && messages.length >= memory.summarizedCount;
+  const rest = summarized ? messages.slice(memory.summarizedCount) : messages;
+  const preamble = [summarized ? formatMemoryBlock(memory) : null, ...blocks].filter((b): b is string => !!b);
+  if (preamble.length === 0) return rest;
+
+  const intro: Message = { role: 'user', content: preamble.join('\n\n') };
+  return rest[0]?.role === 'model'
+    ? [intro, ...rest]
+    : [intro, { role: 'model', content: '컨텍스트를 확인했습니다. 이어서 진행합니다.' }, ...rest];
+};
@@ -1,5 +1,72 @@
 
-import { ParsedResponse, GameState } from "../types";
+import { ParsedResponse, GameState, StatValues, RunEndInfo, HudLabels } from "../types";
+import { DEFAULT_HUD_LABELS, LOCALIZED_HUD_LABELS } from "./promptPacks";
+
+// Severity scale for descriptive HP / mental values (0-100).
+// Checked in order, so more specific words come first.
+// Korean / English / Japanese wording per level.
+const HP_SEVERITY: [RegExp, number][] = [
+  [/사망|dead|死亡/i, 0],
+  [/빈사|위독|치명|critical|dying|瀕死|危篤|致命/i, 10],
+  [/중상|중태|심각|severe|serious|重傷|重体|深刻/i, 35],
+  [/경상|부상|출혈|injured|wounded|bleeding|軽傷|負傷|出血/i, 65],
+  [/찰과상|피로|지침|scratch|bruised|tired|fatigued|擦り傷|疲労/i, 80],
+  [/양호|정상|건강|온전|최상|good|normal|healthy|fine|良好|正常|健康/i, 100],
+];
+
+const MENTAL_SEVERITY: [RegExp, number][] = [
+  [/광란|붕괴|미침|frenzy|broken|insane|狂乱|崩壊/i, 0],
+  [/패닉|공황|절망|panic|despair|パニック|恐慌|絶望/i, 20],
+  [/공포|동요|혼란|흔들|fear|afraid|shaken|confused|恐怖|動揺|混乱/i, 45],
+  [/불안|긴장|초조|경계|anxious|tense|nervous|alert|不安|緊張|焦り|警戒/i, 65],
+  [/피로|지침|tired|weary|疲労/i, 75],
+  [/안정|양호|정상|침착|냉정|평온|stable|calm|steady|composed|安定|冷静|平静/i, 100],
+];
+
+const STAT_LABELS: Record<keyof StatValues, RegExp> = {
+  physical: /(?:피지컬|physical|フィジカル)\s*\(?\s*(-?\d+)/i,
+  survival: /(?:생존(?:\s*본능)?|survival|生存)\s*\(?\s*(-?\d+)/i,
+  charisma: /(?:카리스마|charisma|カリスマ)\s*\(?\s*(-?\d+)/i,
+};
+
+/**
+ * Converts an HP/mental HUD value into a 0-100 level.
+ * Accepts "70/100", "70%", a bare number, or a descriptive severity word.
+ */
+export const parseLevel = (raw: string | undefined, scale: [RegExp, number][]): number | null => {
+  if (!raw) return null;
+  const ratio = raw.match(/(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/);
+  if (ratio && Number(ratio[2]) > 0) {
+    return Math.max(0, Math.min(100, Math.round((Number(ratio[1]) / Number(ratio[2])) * 100)));
+  }
+  // Only trust a bare number or an explicit percentage; "경상 (3곳)" is not 3%
+  const numeric = raw.match(/(\d+(?:\.\d+)?)\s*%/) || raw.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+  if (numeric) {
+    return Math.max(0, Math.min(100, Math.round(Number(numeric[1]))));
+  }
+  for (const [pattern, level] of scale) {
+    if (pattern.test(raw)) return level;
+  }
+  return null;
+};
+
+export const parseStatValues = (raw: string | undefined): StatValues => {
+  const values: StatValues = {};
+  if (!raw) return values;
+  (Object.keys(STAT_LABELS) as (keyof StatValues)[]).forEach(key => {
+    const m = raw.match(STAT_LABELS[key]);
+    if (m) values[key] = Number(m[1]);
+  });
+  return values;
+};
+
+// Fills the numeric fields from the raw strings (also used for saves made before they existed)
+export const deriveNumericState = (state: Partial<GameState>): Partial<GameState> => ({
+  ...state,
+  hpLevel: parseLevel(state.hp, HP_SEVERITY),
+  mentalLevel: parseLevel(state.mental, MENTAL_SEVERITY),
+  statValues: parseStatValues(state.stats),
+});
 
 export const parseGameResponse = (text: string): ParsedResponse => {
   // 1. Extract HUD Code Block
@@ -38,44 +105,160 @@ export const parseGameResponse = (text: string): ParsedResponse => {
   };
 };
 
-export const parseHudToState = (hudText: string): Partial<GameState> => {
+const RESTART_PROMPT_REGEX = /(?:새로운 시뮬레이션을 시작하시겠습니까\??|Start a new simulation\?|新しいシミュレーションを開始しますか[?？]?)\s*(\(Y\/N\))?/;
+const DEATH_MARKER_REGEX = /\[사망 엔딩\]|\[사망 기록부\]/;
+const ENDING_MARKER_REGEX = /\[엔딩(?:\s*[:：]\s*([^\]]*))?\]/;
+const IDENT_CODE_REGEX = /식별코드\s*[:：]\s*\[?\s*(ID-[A-Z0-9]+)/i;
+
+/**
+ * Detects the end of a run in a GM turn: death markers, an ending tag,
+ * the 식별코드 line of a death record, or the restart prompt the system prompt requires after either.
+ * Returns null for an ordinary turn.
+ */
+export const detectRunEnd = (narrative: string): RunEndInfo | null => {
+  const endingMatch = narrative.match(ENDING_MARKER_REGEX);
+  const identMatch = narrative.match(IDENT_CODE_REGEX);
+  // The ident code only appears in death records, so it counts as one even without the headers
+  const isDeath = DEATH_MARKER_REGEX.test(narrative) || (!!identMatch && !endingMatch);
+  const hasPrompt = RESTART_PROMPT_REGEX.test(narrative);
+  if (!isDeath && !endingMatch && !hasPrompt) return null;
+
+  const causeMatch = narrative.match(/사인\s*[:：]\s*(.+)/);
+
+  // Verdict runs from [GM의 총평] to the restart prompt (or the end)
+  let verdict: string | null = null;
+  const verdictIdx = narrative.indexOf('[GM의 총평]');
+  if (verdictIdx !== -1) {
+    verdict = narrative.slice(verdictIdx + '[GM의 총평]'.length)
+      .replace(RESTART_PROMPT_REGEX, '')
+      .replace(/\[PERK_ACQUIRED:[^\]]*\]/g, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim() || null;
+  }
+
+  // Death: the record block from the first marker up to the verdict.
+  // Ending: the whole closing scene is the record.
+  const headerIdx = narrative.search(DEATH_MARKER_REGEX);
+  const identLineIdx = identMatch?.index !== undefined ? narrative.lastIndexOf('\n', identMatch.index) + 1 : 0;
+  const markerIdx = !isDeath ? 0 : headerIdx !== -1 ? headerIdx : identLineIdx;
+  const recordEnd = verdictIdx !== -1 && verdictIdx >= markerIdx ? verdictIdx : narrative.length;
+  const record = narrative.slice(markerIdx, recordEnd)
+    .replace(RESTART_PROMPT_REGEX, '')
+    .replace(/\[PERK_ACQUIRED:[^\]]*\]/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    outcome: isDeath ? 'death' : 'ending',
+    identCode: identMatch ? identMatch[1].toUpperCase() : null,
+    title: endingMatch && endingMatch[1] ? endingMatch[1].trim() : null,
+    cause: causeMatch ? causeMatch[1].trim() : null,
+    record,
+    verdict,
+  };
+};
+
+// Trimmed marker field; placeholders like '-' or '불명' count as empty
+export const markerField = (value: string | undefined): string | null => {
+  const v = value?.trim();
+  return v && !/^(-+|\?+|없음|불명|none|unknown|不明|なし)$/i.test(v) ? v : null;
+};
+
+type MarkerFields = [name: string, ...fields: (string | null)[]];
+
+/**
+ * Pulls `[tag: a | b | ...]` marker lines out of a GM turn. Returns the narrative without them and
+ * the fields of each marker, padded or folded to `fieldCount` (the last field keeps any extra '|').
+ * Markers without a first field (the name) are dropped.
+ */
+export const extractMarkers = (tag: string, narrative: string, fieldCount: number): { text: string; markers: MarkerFields[] } => {
+  const markers: MarkerFields[] = [];
+  const regex = new RegExp(`^\\s*\\[${tag}:\\s*([^\\]]*)\\]\\s*$`, 'gim');
+  const text = narrative.replace(regex, (_, body: string) => {
+    const parts = body.split('|');
+    const [name, ...rest] = Array.from({ length: fieldCount }, (_field, i) =>
+      markerField(i === fieldCount - 1 ? parts.slice(i).join('|') : parts[i]));
+    if (name) markers.push([name, ...rest]);
+    return '';
+  }).replace(/\n{3,}/g, '\n\n').trim();
+  return { text, markers };
+};
+
+// Narrative visible while a response is still streaming.
+// Completed HUD blocks are dropped and anything after an unclosed fence is held back,
+// so the raw HUD never flashes in the chat before the final parse.
+export const getStreamingNarrative = (partial: string): string => {
+  let visible = partial.replace(/```text[\s\S]*?```/g, '');
+  const openFence = visible.indexOf('```');
+  if (openFence !== -1) {
+    visible = visible.slice(0, openFence);
+  }
+  // A fence may be arriving one backtick at a time
+  return visible.replace(/`{1,2}$/, '').trimEnd();
+};
+
+// Returns the rest of `line` after the first of `labels` it contains, or null
+const takeLabeled = (line: string, labels: string[]): string | null => {
+  const label = labels.find(l => line.includes(l));
+  return label ? line.replace(label, '').trim() : null;
+};
+
+/**
+ * Reads the HUD block into a GameState. Labels come from the active prompt pack;
+ * the built-in Korean, English and Japanese labels are always accepted as well.
+ */
+export const parseHudToState = (hudText: string, labels: HudLabels = DEFAULT_HUD_LABELS): Partial<GameState> => {
   const state: Partial<GameState> = {};
+  const withDefault = (key: keyof HudLabels) =>
+    [...new Set([labels[key], ...Object.values(LOCALIZED_HUD_LABELS).map(l => l[key])])];
+  const hpKeys = withDefault('hp').map(k => `${k.toUpperCase()}:`);
+  const mentalKeys = withDefault('mental').map(k => `${k.toUpperCase()}:`);
+  const stripKey = (part: string, keys: string[]) => {
+    const key = keys.find(k => part.toUpperCase().startsWith(k));
+    return key ? part.slice(key.length).trim() : null;
+  };
 
   const lines = hudText.split('\n');
   lines.forEach(line => {
-    if (line.includes('[상태]')) {
-        const content = line.replace('[상태]', '').trim();
+    const status = takeLabeled(line, withDefault('status'));
+    if (status !== null) {
         // Format: "HP: ... | 멘탈: ..."
-        if (content.includes('|')) {
-            const parts = content.split('|').map(p => p.trim());
+        if (status.includes('|')) {
+            const parts = status.split('|').map(p => p.trim());
             parts.forEach(part => {
-                if (part.toUpperCase().startsWith('HP:')) {
-                    state.hp = part.replace(/HP:/i, '').trim();
-                } else if (part.startsWith('멘탈:')) {
-                    state.mental = part.replace('멘탈:', '').trim();
-                }
+                const hp = stripKey(part, hpKeys);
+                const mental = stripKey(part, mentalKeys);
+                if (hp !== null) state.hp = hp;
+                else if (mental !== null) state.mental = mental;
             });
         } else {
             // Fallback if separator missing
-            state.hp = content;
+            state.hp = status;
         }
     }
-    if (line.includes('[스탯]')) {
-        state.stats = line.replace('[스탯]', '').trim();
+    const stats = takeLabeled(line, withDefault('stats'));
+    if (stats !== null) {
+        state.stats = stats;
+    }
+    const tags = takeLabeled(line, withDefault('tags'));
+    if (tags !== null) {
+        state.tags = tags.split(',').map(t => t.trim());
     }
-    if (line.includes('[태그]')) {
-        const tagsRaw = line.replace('[태그]', '').trim();
-        state.tags = tagsRaw.split(',').map(t => t.trim());
+    const equipment = takeLabeled(line, withDefault('equipment'));
+    if (equipment !== null) {
+        state.equipment = equipment;
     }
-    if (line.includes('[장비]')) {
-        state.equipment = line.replace('[장비]', '').trim();
+    const notes = takeLabeled(line, withDefault('notes'));
+    if (notes !== null) {
+        state.notes = notes;
     }
-    if (line.includes('[메모]')) {
-        state.notes = line.replace('[메모]', '').trim();
+    const location = takeLabeled(line, withDefault('location'));
+    if (location !== null) {
+        state.location = location;
     }
   });
 
-  return state;
+  return deriveNumericState(state);
 };
 
 // Simple XOR cipher for "encryption" (obfuscation) as requested
@@ -0,0 +1,151 @@
+import { SYSTEM_PROMPT, START_GAME_TEMPLATE, LEGACY_PERK_TEMPLATE, TAG_EXPLANATION_TEMPLATE } from "../constants";
+import { HudLabels, JobDefinition, Language, PromptPack, PromptPackRef, Recipe, RunSetup } from "../types";
+import { describeJobForPrompt } from "./jobs";
+import { parseRecipeList } from "./recipes";
+import { describeRunSetup } from "./runSeed";
+import { isObject } from "./guards";
+import { Translator } from "./i18n";
+
+export const DEFAULT_HUD_LABELS: HudLabels = {
+  status: '[상태]',
+  stats: '[스탯]',
+  tags: '[태그]',
+  equipment: '[장비]',
+  notes: '[메모]',
+  location: '[위치]',
+  hp: 'HP',
+  mental: '멘탈',
+};
+
+// Labels the GM uses when told to narrate in another language (see GAME_LANGUAGE_PROMPTS)
+export const LOCALIZED_HUD_LABELS: Record<Language, HudLabels> = {
+  ko: DEFAULT_HUD_LABELS,
+  en: { status: '[Status]', stats: '[Stats]', tags: '[Tags]', equipment: '[Equipment]', notes: '[Notes]', location: '[Location]', hp: 'HP', mental: 'Mental' },
+  ja: { status: '[状態]', stats: '[ステータス]', tags: '[タグ]', equipment: '[装備]', notes: '[メモ]', location: '[位置]', hp: 'HP', mental: 'メンタル' },
+};
+
+// English names, for "Answer in {{language}}" style template slots
+export const LANGUAGE_NAMES: Record<Language, string> = { ko: 'Korean', en: 'English', ja: 'Japanese' };
+
+export const DEFAULT_PROMPT_PACK: PromptPack = {
+  id: 'seoul-fallout',
+  version: '1.0.0',
+  name: 'Seoul Fallout (Hardcore)',
+  description: '기본 규칙. 주인공 보정 없는 하드코어 생존.',
+  systemPrompt: SYSTEM_PROMPT,
+  startTemplate: START_GAME_TEMPLATE,
+  legacyPerkTemplate: LEGACY_PERK_TEMPLATE,
+  tagExplanationTemplate: TAG_EXPLANATION_TEMPLATE,
+  hudLabels: DEFAULT_HUD_LABELS,
+};
+
+export const BUILTIN_PROMPT_PACKS: PromptPack[] = [DEFAULT_PROMPT_PACK];
+
+export const toPackRef = (pack: PromptPack): PromptPackRef => ({ id: pack.id, version: pack.version });
+
+export const isSamePack = (a: PromptPackRef, b: PromptPackRef): boolean =>
+  a.id === b.id && a.version === b.version;
+
+// Replaces {{key}} placeholders; unknown keys are left as-is
+export const renderTemplate = (template: string, vars: Record<string, string>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key) => (key in vars ? vars[key] : match));
+
+// Packs written before class sheets / run seeds existed lack those placeholders; the blocks are appended instead.
+export const buildStartPrompt = (pack: PromptPack, job: JobDefinition, perk: string | null, setup: RunSetup): string => {
+  const blocks = {
+    classSheet: describeJobForPrompt(job),
+    runSetup: describeRunSetup(setup),
+  };
+  const prompt = renderTemplate(pack.startTemplate, {
+    mode: perk ? `Legacy Mode (Apply Perk: ${perk})` : "Zero Hour (No Perks, Fresh Start)",
+    job: job.name,
+    ...blocks,
+    perkInstructions: perk ? renderTemplate(pack.legacyPerkTemplate, { perk }) : '',
+  });
+  const missing = (Object.keys(blocks) as (keyof typeof blocks)[])
+    .filter(key => !pack.startTemplate.includes(`{{${key}}}`))
+    .map(key => blocks[key]);
+  return [prompt, ...missing].join('\n\n');
+};
+
+export const buildTagPrompt = (pack: PromptPack, tag: string, language: Language = 'ko'): string =>
+  renderTemplate(pack.tagExplanationTemplate, { tag, language: LANGUAGE_NAMES[language] });
+
+/**
+ * Finds the pack a save was made with. Falls back to a different version of the
+ * same pack, then to the default pack; `exact` tells the caller whether rules changed.
+ */
+export const resolvePromptPack = (ref: PromptPackRef, packs: PromptPack[]): { pack: PromptPack; exact: boolean } => {
+  const exact = packs.find(p => isSamePack(toPackRef(p), ref));
+  if (exact) return { pack: exact, exact: true };
+  return { pack: packs.find(p => p.id === ref.id) || DEFAULT_PROMPT_PACK, exact: false };
+};
+
+const TEXT_FIELDS = ['systemPrompt', 'startTemplate', 'legacyPerkTemplate', 'tagExplanationTemplate'] as const;
+
+/**
+ * Parses a prompt pack .json file. Only id, version and name are required;
+ * anything missing is taken from the default pack. Throws with a player-facing message.
+ */
+export const parsePromptPack = (text: string, t: Translator): PromptPack => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('import.invalidJson'));
+  }
+  if (!isObject(raw)) throw new Error(t('import.packInvalid'));
+
+  const required = (key: 'id' | 'version' | 'name'): string => {
+    const value = raw[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(t('import.packMissing', { key }));
+    }
+    return value.trim();
+  };
+  const [id, version, name] = [required('id'), required('version'), required('name')];
+
+  const texts: Partial<Record<typeof TEXT_FIELDS[number], string>> = {};
+  for (const key of TEXT_FIELDS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      throw new Error(t('import.packNotText', { key }));
+    }
+    texts[key] = value;
+  }
+  if (texts.startTemplate !== undefined && !texts.startTemplate.includes('{{job}}')) {
+    throw new Error(t('import.packJobPlaceholder'));
+  }
+
+  const labels: Partial<HudLabels> = {};
+  if (raw.hudLabels !== undefined) {
+    if (!isObject(raw.hudLabels)) throw new Error(t('import.packHudLabels'));
+    (Object.keys(DEFAULT_HUD_LABELS) as (keyof HudLabels)[]).forEach(key => {
+      const value = raw.hudLabels[key];
+      if (typeof value === 'string' && value.trim()) labels[key] = value.trim();
+    });
+  }
+
+  let recipes: Recipe[] | undefined;
+  if (raw.recipes !== undefined) {
+    try {
+      recipes = parseRecipeList(raw.recipes, t);
+    } catch (e) {
+      throw new Error(t('import.packRecipes', { message: e instanceof Error ? e.message : '' }).trim());
+    }
+  }
+
+  return {
+    id,
+    version,
+    name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    systemPrompt: texts.systemPrompt ?? DEFAULT_PROMPT_PACK.systemPrompt,
+    startTemplate: texts.startTemplate ?? DEFAULT_PROMPT_PACK.startTemplate,
+    legacyPerkTemplate: texts.legacyPerkTemplate ?? DEFAULT_PROMPT_PACK.legacyPerkTemplate,
+    tagExplanationTemplate: texts.tagExplanationTemplate ?? DEFAULT_PROMPT_PACK.tagExplanationTemplate,
+    hudLabels: { ...DEFAULT_HUD_LABELS, ...labels },
+    recipes,
+  };
+};
@@ -0,0 +1,67 @@
+import { Message, QuestEntry, QuestStatus, QuestUpdate } from "../types";
+import { extractMarkers } from "./parser";
+
+// Korean / English / Japanese wording; anything else reads as still in progress.
+// Active wording is tested first, since 미완료 / incomplete / 未完了 contain the completed words.
+const STATUS_PATTERNS: [RegExp, QuestStatus][] = [
+  [/미완|미달성|진행|incomplete|unfinished|not done|in progress|ongoing|未完|未達成|進行/i, 'active'],
+  [/실패|포기|무산|fail|abandon|lost|失敗|放棄/i, 'failed'],
+  [/완료|달성|성공|complete|done|success|完了|達成|成功/i, 'completed'],
+];
+
+export const classifyQuestStatus = (text: string | null): QuestStatus =>
+  text ? STATUS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'active' : 'active';
+
+/** Pulls quest markers out of a GM turn, returning the narrative without them and one update per marker. */
+export const extractQuestUpdates = (narrative: string, turn: number): { text: string; updates: QuestUpdate[] } => {
+  // [퀘스트: 이름 | 진행/완료/실패 | 현재 목표]
+  const { text, markers } = extractMarkers('퀘스트', narrative, 3);
+  const updates = markers.map(([name, status, objective]): QuestUpdate =>
+    ({ name, status: classifyQuestStatus(status), objective, turn }));
+  return { text, updates };
+};
+
+const questKey = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Folds every quest update in the chat into journal entries: active quests first, then finished ones,
+ * each group most recent first. A quest reported again after it ended is reopened.
+ */
+export const buildJournal = (messages: Message[]): QuestEntry[] => {
+  const entries = new Map<string, QuestEntry>();
+  messages.forEach(m => m.questUpdates?.forEach(update => {
+    const key = questKey(update.name);
+    const prev = entries.get(key);
+    const reopened = prev && prev.status !== 'active' && update.status === 'active';
+    entries.set(key, {
+      name: prev?.name ?? update.name,
+      status: update.status,
+      objective: update.objective ?? prev?.objective ?? null,
+      startTurn: prev && !reopened ? prev.startTurn : update.turn,
+      endTurn: update.status === 'active' ? null : (prev?.status === update.status ? prev.endTurn : update.turn),
+    });
+  }));
+  const lastTurn = (q: QuestEntry) => q.endTurn ?? q.startTurn;
+  return [...entries.values()].sort((a, b) =>
+    Number(a.status !== 'active') - Number(b.status !== 'active') || lastTurn(b) - lastTurn(a));
+};
+
+export const getCompletedObjectives = (journal: QuestEntry[]): string[] =>
+  journal.filter(q => q.status === 'completed').map(q => q.name);
+
+/**
+ * Legacy perks are earned by reaching an ending, or by dying with at least one objective completed.
+ * A perk the GM hands out on any other death is not kept.
+ */
+export const isLegacyEligible = (isDeath: boolean, journal: QuestEntry[]): boolean =>
+  !isDeath || journal.some(q => q.status === 'completed');
+
+/** Compact journal for rebuilt sessions, so the GM keeps tracking the same objectives after a load; null when empty. */
+export const formatJournalBlock = (journal: QuestEntry[]): string | null => journal.length === 0 ? null : [
+  '[SYSTEM] QUEST JOURNAL (진행 중이거나 끝난 퀘스트 — 상태가 바뀌면 같은 이름으로 [퀘스트: ...]를 출력하십시오.)',
+  ...journal.map(q => [
+    q.name,
+    q.status === 'active' ? '진행' : q.status === 'completed' ? '완료' : '실패',
+    q.objective,
+  ].filter(Boolean).join(' | ')),
+].join('\n');
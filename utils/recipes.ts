@@ -0,0 +1,232 @@
+import { InventoryItem, Recipe, RecipeAvailability, RecipeIngredient, ValidationIssue } from "../types";
+import { LANGUAGES, Translator, describeIssues, localizeTag } from "./i18n";
+import { isObject, isStringArray, readText, readTextList } from "./guards";
+
+export const BUILTIN_RECIPES: Recipe[] = [
+  {
+    id: 'field-bandage',
+    name: '응급 붕대',
+    description: '천을 술이나 소독약에 적셔 감은 급조 붕대. 출혈을 늦추는 정도는 된다.',
+    ingredients: [
+      { names: ['천', '천 조각', '옷감', '넝마', '셔츠', 'cloth', 'rag', '布'], quantity: 1, consumed: true },
+      { names: ['알코올', '소주', '소독약', 'alcohol', 'disinfectant', 'アルコール', '消毒'], quantity: 1, consumed: true },
+    ],
+    requiredTags: [],
+    output: { name: '응급 붕대', quantity: 2 },
+  },
+  {
+    id: 'molotov',
+    name: '화염병',
+    description: '빈 병에 연료를 채우고 천으로 심지를 만든다. 불을 붙이는 순간부터 시간이 없다.',
+    ingredients: [
+      { names: ['빈 병', '유리병', 'bottle', '瓶', '空き瓶'], quantity: 1, consumed: true },
+      { names: ['휘발유', '연료', '알코올', '소주', 'fuel', 'gasoline', 'alcohol', '燃料', 'ガソリン'], quantity: 1, consumed: true },
+      { names: ['천', '천 조각', '옷감', '넝마', 'cloth', 'rag', '布'], quantity: 1, consumed: true },
+      { names: ['라이터', '성냥', 'lighter', 'matches', 'ライター', 'マッチ'], quantity: 1, consumed: false },
+    ],
+    requiredTags: ['[화학]'],
+    output: { name: '화염병', quantity: 1 },
+  },
+  {
+    id: 'pipe-bomb',
+    name: '파이프 폭탄',
+    description: '쇠파이프에 화약을 채워 막은 폭발물. 만드는 사람이 가장 먼저 위험하다.',
+    ingredients: [
+      { names: ['쇠파이프', '파이프', 'pipe', 'パイプ'], quantity: 1, consumed: true },
+      { names: ['화약', '탄약', 'gunpowder', 'ammo', '火薬', '弾薬'], quantity: 1, consumed: true },
+      { names: ['테이프', '전선', 'tape', 'wire', 'テープ'], quantity: 1, consumed: true },
+    ],
+    requiredTags: ['[화학]', '[공학]'],
+    output: { name: '파이프 폭탄', quantity: 1 },
+  },
+  {
+    id: 'water-filter',
+    name: '정수 필터',
+    description: '병 속에 숯과 천을 층층이 채운 필터. 방사능까지 거르지는 못한다.',
+    ingredients: [
+      { names: ['빈 병', '유리병', 'bottle', '瓶', '空き瓶'], quantity: 1, consumed: true },
+      { names: ['숯', 'charcoal', '炭'], quantity: 1, consumed: true },
+      { names: ['천', '천 조각', '옷감', '넝마', 'cloth', 'rag', '布'], quantity: 1, consumed: true },
+    ],
+    requiredTags: [],
+    output: { name: '정수 필터', quantity: 1 },
+  },
+  {
+    id: 'lockpick',
+    name: '급조 락픽',
+    description: '철사를 구부려 만든 자물쇠 따개. 구시대 자물쇠 정도는 열 수 있다.',
+    ingredients: [
+      { names: ['철사', '전선', '클립', 'wire', 'paperclip', '針金'], quantity: 2, consumed: true },
+      { names: ['멀티툴', '펜치', 'multitool', 'pliers', 'マルチツール', 'ペンチ'], quantity: 1, consumed: false },
+    ],
+    requiredTags: ['[공학]'],
+    output: { name: '급조 락픽', quantity: 1 },
+  },
+  {
+    id: 'painkiller-shot',
+    name: '진통 주사',
+    description: '진통제를 녹여 주사기에 담는다. 효과는 빠르지만 용량을 틀리면 끝이다.',
+    ingredients: [
+      { names: ['진통제', 'painkiller', '鎮痛剤'], quantity: 2, consumed: true },
+      { names: ['주사기', 'syringe', '注射器'], quantity: 1, consumed: true },
+    ],
+    requiredTags: ['[의학]'],
+    output: { name: '진통 주사', quantity: 1 },
+  },
+  {
+    id: 'signal-jammer',
+    name: '신호 교란기',
+    description: '무전기를 뜯어 만든 교란 장치. 드론과 포탑의 통신을 잠시 끊는다.',
+    ingredients: [
+      { names: ['무전기', 'radio', '無線'], quantity: 1, consumed: true },
+      { names: ['배터리', 'battery', 'バッテリー'], quantity: 2, consumed: true },
+      { names: ['전선', '케이블', 'wire', 'cable', 'ケーブル'], quantity: 1, consumed: true },
+    ],
+    requiredTags: ['[공학]', '[해킹]'],
+    output: { name: '신호 교란기', quantity: 1 },
+  },
+];
+
+const isPositiveInt = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+// Schema problems as translation keys, like the class validator
+const validateRecipe = (raw: unknown): ValidationIssue[] => {
+  const errors: ValidationIssue[] = [];
+  if (!isObject(raw)) return [{ key: 'validation.notObject', params: { path: '(root)' } }];
+
+  (['id', 'name'] as const).forEach(key => {
+    if (typeof raw[key] !== 'string' || !raw[key].trim()) errors.push({ key: 'validation.required', params: { path: key } });
+  });
+  if (raw.description !== undefined && typeof raw.description !== 'string') errors.push({ key: 'validation.notText', params: { path: 'description' } });
+  if (raw.requiredTags !== undefined && !isStringArray(raw.requiredTags)) errors.push({ key: 'validation.notTextList', params: { path: 'requiredTags' } });
+
+  if (!Array.isArray(raw.ingredients) || raw.ingredients.length === 0) {
+    errors.push({ key: 'validation.emptyList', params: { path: 'ingredients' } });
+  } else {
+    raw.ingredients.forEach((ing: unknown, i: number) => {
+      const path = `ingredients[${i}]`;
+      if (!isObject(ing)) return errors.push({ key: 'validation.notObject', params: { path: path } });
+      if (!isStringArray(ing.names) || !ing.names.some(n => n.trim())) errors.push({ key: 'validation.emptyList', params: { path: `${path}.names` } });
+      if (ing.quantity !== undefined && !isPositiveInt(ing.quantity)) errors.push({ key: 'validation.positiveInt', params: { path: `${path}.quantity` } });
+      if (ing.consumed !== undefined && typeof ing.consumed !== 'boolean') errors.push({ key: 'validation.notBoolean', params: { path: `${path}.consumed` } });
+    });
+  }
+
+  if (!isObject(raw.output) || typeof raw.output.name !== 'string' || !raw.output.name.trim()) {
+    errors.push({ key: 'validation.required', params: { path: 'output.name' } });
+  } else if (raw.output.quantity !== undefined && !isPositiveInt(raw.output.quantity)) {
+    errors.push({ key: 'validation.positiveInt', params: { path: 'output.quantity' } });
+  }
+  return errors;
+};
+
+const normalizeRecipe = (raw: Record<string, unknown>): Recipe => {
+  const output = isObject(raw.output) ? raw.output : {};
+  return {
+    id: readText(raw.id),
+    name: readText(raw.name),
+    description: readText(raw.description),
+    ingredients: (Array.isArray(raw.ingredients) ? raw.ingredients : []).filter(isObject).map((ing): RecipeIngredient => ({
+      names: readTextList(ing.names),
+      quantity: isPositiveInt(ing.quantity) ? ing.quantity : 1,
+      consumed: typeof ing.consumed === 'boolean' ? ing.consumed : true,
+    })),
+    requiredTags: readTextList(raw.requiredTags),
+    output: { name: readText(output.name), quantity: isPositiveInt(output.quantity) ? output.quantity : 1 },
+  };
+};
+
+/** Validates a list of recipe definitions (from a prompt pack or a recipe file). Throws with a player-facing message. */
+export const parseRecipeList = (raw: unknown, t: Translator): Recipe[] => {
+  if (!Array.isArray(raw)) throw new Error(t('import.recipeList'));
+  return raw.map((entry, i) => {
+    const errors = validateRecipe(entry);
+    if (errors.length > 0 || !isObject(entry)) throw new Error(t('import.recipeEntry', { index: i + 1, errors: describeIssues(errors, t).join(', ') }));
+    return normalizeRecipe(entry);
+  });
+};
+
+/** Parses a recipe mod file: { kind: 'recipes', version: 1, recipes: [...] } or a bare array. */
+export const parseRecipeImport = (text: string, t: Translator): Recipe[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('import.invalidJson'));
+  }
+  const recipes = parseRecipeList(isObject(raw) && Array.isArray(raw.recipes) ? raw.recipes : raw, t);
+  if (recipes.length === 0) throw new Error(t('import.recipesEmpty'));
+  return recipes;
+};
+
+/** Built-ins, then pack recipes, then mods; a later recipe with the same id replaces the earlier one. */
+export const mergeRecipes = (...sources: (Recipe[] | undefined)[]): Recipe[] => {
+  const byId = new Map<string, Recipe>();
+  sources.forEach(list => list?.forEach(recipe => byId.set(recipe.id, recipe)));
+  return [...byId.values()];
+};
+
+const normalize = (text: string) => text.replace(/[\[\]\s]/g, '').toLowerCase();
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const CJK = /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HANGUL_SYLLABLE = /^\p{Script=Hangul}$/u;
+
+/**
+ * Korean, Japanese and Chinese names match anywhere in the item name, since Japanese has no spaces and
+ * Korean compounds freely ("パイプ" in "折れた鉄パイプ", "파이프" in "쇠파이프"). A one-syllable Korean alias
+ * must be a word of its own, so "천" matches "낡은 천" but not "천막". Other names match whole words:
+ * "rag" matches "dirty rags" but not "dragon".
+ */
+const matchesName = (itemName: string, alias: string): boolean => {
+  if (normalize(itemName) === normalize(alias)) return true;
+  if (CJK.test(alias)) {
+    const needle = normalize(alias);
+    return HANGUL_SYLLABLE.test(needle) ? words(itemName).includes(needle) : normalize(itemName).includes(needle);
+  }
+  const item = words(itemName);
+  const wanted = words(alias);
+  return wanted.length > 0 && item.some((_, i) =>
+    wanted.every((w, j) => item[i + j] === w || item[i + j] === `${w}s`));
+};
+
+// "[화학]" is satisfied by "[화학]", "화학" or its English / Japanese glossary name
+const hasTag = (required: string, tags: string[]): boolean => {
+  const spellings = new Set([required, ...LANGUAGES.map(l => localizeTag(required, l.id))].map(normalize));
+  return tags.some(tag => spellings.has(normalize(tag)));
+};
+
+/**
+ * Checks a recipe against the parsed [장비] list and [태그].
+ * Items are set aside as ingredients claim them, so one bottle can't fill two slots.
+ */
+export const checkRecipe = (recipe: Recipe, inventory: InventoryItem[], tags: string[]): RecipeAvailability => {
+  const remaining = inventory.map(item => item.quantity);
+  const missingItems: string[] = [];
+
+  recipe.ingredients.forEach(ing => {
+    let needed = ing.quantity;
+    inventory.forEach((item, i) => {
+      if (needed === 0 || remaining[i] === 0) return;
+      if (!ing.names.some(n => matchesName(item.name, n))) return;
+      const taken = Math.min(needed, remaining[i]);
+      remaining[i] -= taken;
+      needed -= taken;
+    });
+    if (needed > 0) missingItems.push(ing.quantity > 1 ? `${ing.names[0]} x${needed}` : ing.names[0]);
+  });
+
+  const missingTags = recipe.requiredTags.filter(tag => !hasTag(tag, tags));
+  return { recipe, missingItems, missingTags, craftable: missingItems.length === 0 && missingTags.length === 0 };
+};
+
+/** Label for the crafting check: the recipe's first required skill, else plain crafting. */
+export const getCraftSkill = (recipe: Recipe): string =>
+  recipe.requiredTags[0]?.replace(/[\[\]]/g, '').trim() || '제작';
+
+/** "천, 알코올 x2" for the consumed ingredients, or for the tools that are only needed; null when there are none. */
+export const describeIngredients = (recipe: Recipe, consumed: boolean): string | null => {
+  const list = recipe.ingredients.filter(ing => ing.consumed === consumed);
+  return list.length > 0 ? list.map(ing => `${ing.names[0]}${ing.quantity > 1 ? ` x${ing.quantity}` : ''}`).join(', ') : null;
+};
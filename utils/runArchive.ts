@@ -0,0 +1,30 @@
+import { GameState, Message, RunEndInfo, RunRecord } from "../types";
+
+interface RunSnapshot {
+  runEnd: RunEndInfo;
+  job: string | null;
+  perk: string | null;
+  seed: string | null;
+  perksEarned: string[];
+  objectivesCompleted: string[];
+  gameState: Partial<GameState>;
+  messages: Message[];
+}
+
+export const createRunRecord = ({ runEnd, job, perk, seed, perksEarned, objectivesCompleted, gameState, messages }: RunSnapshot): RunRecord => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: Date.now(),
+  identCode: runEnd.identCode,
+  job,
+  perk,
+  seed,
+  turns: messages.filter(m => m.role === 'user').length,
+  outcome: runEnd.outcome,
+  cause: runEnd.outcome === 'death' ? runEnd.cause : runEnd.title,
+  verdict: runEnd.verdict,
+  record: runEnd.record,
+  perksEarned,
+  objectivesCompleted,
+  finalHud: gameState,
+  transcript: messages,
+});
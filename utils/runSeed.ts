@@ -0,0 +1,121 @@
+import { Language, RunSetup } from "../types";
+import { nextRandom } from "./dice";
+
+// Crockford-style alphabet: no I, L, O, U, so codes survive being read aloud or retyped
+const SEED_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SEED_LENGTH = 6;
+
+// Each entry in every narration language; the seed picks the entry, the run's language picks the text
+const entry = (ko: string, en: string, ja: string): Record<Language, string> => ({ ko, en, ja });
+
+const START_LOCATIONS = [
+  entry('을지로3가역 승강장', 'Euljiro 3-ga Station platform', '乙支路3街駅のホーム'),
+  entry('여의도 국회의사당 돔 잔해', 'Ruins of the National Assembly dome, Yeouido', '汝矣島の国会議事堂ドームの残骸'),
+  entry('홍대입구 지하상가', 'Hongik Univ. Station underground mall', '弘大入口の地下商店街'),
+  entry('남산 서울타워 전망대', 'N Seoul Tower observation deck, Namsan', '南山ソウルタワーの展望台'),
+  entry('잠실 롯데월드타워 37층', 'Lotte World Tower 37th floor, Jamsil', '蚕室ロッテワールドタワー37階'),
+  entry('청량리 청과물 시장', 'Cheongnyangni produce market', '清凉里の青果市場'),
+  entry('용산 미군기지 외곽 펜스', 'Outer fence of the Yongsan US base', '龍山米軍基地の外周フェンス'),
+  entry('구로디지털단지 서버실', 'Server room in Guro Digital Complex', '九老デジタル団地のサーバールーム'),
+  entry('한강 성산대교 교각 아래', 'Under a pier of Seongsan Bridge on the Han', '漢江・城山大橋の橋脚の下'),
+  entry('강남역 침수된 지하보도', 'Flooded underpass at Gangnam Station', '江南駅の浸水した地下道'),
+  entry('서울대병원 응급실', 'Seoul National University Hospital ER', 'ソウル大学病院の救急室'),
+  entry('동대문 DDP 지하 주차장', 'DDP underground car park, Dongdaemun', '東大門DDPの地下駐車場'),
+];
+
+const INITIAL_CRISES = [
+  entry('방사능 폭풍이 다가오고 있다', 'A radiation storm is closing in', '放射能嵐が迫っている'),
+  entry('약탈자 무리가 근처를 수색 중이다', 'A raider gang is searching the area', '略奪者の一団が付近を捜索している'),
+  entry('발목이 잔해에 깔려 있다', 'Your ankle is pinned under rubble', '足首が瓦礫の下敷きになっている'),
+  entry('마지막 물병이 깨졌다', 'Your last water bottle just broke', '最後の水筒が割れた'),
+  entry('변이체의 둥지 한가운데서 깨어났다', 'You woke up in the middle of a mutant nest', '変異体の巣の真ん中で目覚めた'),
+  entry('동료가 물린 채 열이 오르고 있다', 'A companion was bitten and is running a fever', '仲間が噛まれて熱が上がっている'),
+  entry('천장이 무너지기 직전이다', 'The ceiling is about to collapse', '天井が今にも崩れそうだ'),
+  entry('가스 누출로 숨이 막혀 온다', 'A gas leak is making it hard to breathe', 'ガス漏れで息が詰まってくる'),
+  entry('무장한 생존자가 총구를 겨누고 있다', 'An armed survivor has a gun on you', '武装した生存者が銃口を向けている'),
+  entry('배급 카드를 도둑맞았다', 'Your ration card was stolen', '配給カードを盗まれた'),
+];
+
+const LOOT_TABLE = [
+  entry('녹슨 권총 (탄 2발)', 'Rusty pistol (2 rounds)', '錆びた拳銃 (弾2発)'),
+  entry('반쯤 남은 생수병', 'Half-full water bottle', '半分残った水のボトル'),
+  entry('방독면 (필터 손상)', 'Gas mask (damaged filter)', '防毒マスク (フィルター損傷)'),
+  entry('통조림 1개', 'Can of food (1)', '缶詰 1個'),
+  entry('부러진 쇠파이프', 'Broken steel pipe', '折れた鉄パイプ'),
+  entry('라이터', 'Lighter', 'ライター'),
+  entry('진통제 (1)', 'Painkillers (1)', '鎮痛剤 (1)'),
+  entry('요오드화칼륨 정제', 'Potassium iodide tablets', 'ヨウ化カリウム錠'),
+  entry('무전기 (배터리 약함)', 'Radio (low battery)', '無線機 (バッテリー残量少)'),
+  entry('낡은 지도', 'Old map', '古い地図'),
+  entry('케이블 타이 뭉치', 'Bundle of cable ties', '結束バンドの束'),
+  entry('군용 나이프', 'Military knife', '軍用ナイフ'),
+  entry('붕대 두 롤', 'Two rolls of bandages', '包帯2巻'),
+  entry('손전등', 'Flashlight', '懐中電灯'),
+  entry('담배 한 갑', 'Pack of cigarettes', 'タバコ1箱'),
+  entry('방수포', 'Tarp', '防水シート'),
+];
+
+/** Canonical form of a typed or pasted code: uppercase, separators and look-alike letters folded. */
+export const normalizeSeedCode = (input: string): string =>
+  input.toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+    .replace(/U/g, 'V');
+
+export const createRunSeed = (): string => {
+  let code = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    code += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return code;
+};
+
+/** FNV-1a, so any code (even a hand-typed word) maps to a 32-bit RNG state. */
+export const seedToState = (code: string): number => {
+  let hash = 0x811c9dc5;
+  for (const char of normalizeSeedCode(code)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Opening parameters fixed by the seed. Same code, same start, whatever the GM does or the language it narrates in.
+ * Also returns the dice state left after generation, which seeds the run's skill checks.
+ */
+export const generateRunSetup = (code: string, language: Language): { setup: RunSetup; rngState: number } => {
+  let state = seedToState(code);
+  const pick = <T>(list: T[]): T => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return list[Math.floor(value * list.length)];
+  };
+
+  const location = pick(START_LOCATIONS);
+  const crisis = pick(INITIAL_CRISES);
+  const pool = [...LOOT_TABLE];
+  const loot: Record<Language, string>[] = [];
+  const [countRoll, afterCount] = nextRandom(state);
+  state = afterCount;
+  const count = 1 + Math.floor(countRoll * 3); // 1-3 items
+  for (let i = 0; i < count; i++) {
+    const item = pick(pool);
+    pool.splice(pool.indexOf(item), 1);
+    loot.push(item);
+  }
+
+  return {
+    setup: { seed: normalizeSeedCode(code), location: location[language], crisis: crisis[language], loot: loot.map(item => item[language]) },
+    rngState: state,
+  };
+};
+
+/** Start-prompt block: the GM must use these instead of randomizing the opening itself. */
+export const describeRunSetup = (setup: RunSetup): string => [
+  `RUN SEED: ${setup.seed} (fixed opening; use these exactly instead of randomizing)`,
+  `- Starting location: ${setup.location}`,
+  `- Initial crisis: ${setup.crisis}`,
+  `- Found loot (add to [장비] alongside the class kit): ${setup.loot.join(', ')}`,
+].join('\n');
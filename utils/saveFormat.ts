@@ -0,0 +1,209 @@
+import { CampaignMemory, GamePhase, LocationVisit, Message, SaveExport, SaveFile } from "../types";
+import { deriveNumericState } from "./parser";
+import { DEFAULT_PROMPT_PACK, toPackRef } from "./promptPacks";
+import { isObject } from "./guards";
+import { Translator } from "./i18n";
+
+export const SAVE_FILE_VERSION = 4;
+
+const GAME_PHASES: GamePhase[] = ['intro', 'selection', 'perk-selection', 'job-selection', 'prologue', 'playing', 'game-over', 'archive'];
+
+const readPhase = (v: unknown): GamePhase => GAME_PHASES.find(phase => phase === v) ?? 'playing';
+
+const isMessage = (v: unknown): v is Message =>
+  isObject(v) && (v.role === 'user' || v.role === 'model' || v.role === 'system') && typeof v.content === 'string';
+
+const isLocationVisit = (v: unknown): v is LocationVisit =>
+  isObject(v) && typeof v.name === 'string' && typeof v.turn === 'number';
+
+const isCampaignMemory = (v: unknown): v is CampaignMemory =>
+  isObject(v) && typeof v.summary === 'string' && typeof v.summarizedCount === 'number'
+  && isObject(v.facts) && isObject(v.pinnedHud);
+
+/**
+ * Migration chain. migrations[n] upgrades a version-n save to version n + 1.
+ * Saves written before versioning existed are treated as version 1.
+ */
+const migrations: Record<number, (save: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 -> v2: explicit version, typed phase, selectedJob, numeric HUD fields
+  1: (save) => ({
+    ...save,
+    version: 2,
+    phase: readPhase(save.phase),
+    selectedJob: save.selectedJob ?? null,
+    gameState: deriveNumericState(isObject(save.gameState) ? save.gameState : {}),
+  }),
+  // v2 -> v3: unlimited named saves need an id and a name
+  2: (save) => ({
+    ...save,
+    version: 3,
+    id: typeof save.id === 'string' && save.id ? save.id : createSaveId(),
+    name: typeof save.name === 'string' && save.name.trim() ? save.name : (typeof save.summary === 'string' && save.summary) || 'Untitled',
+  }),
+  // v3 -> v4: prompt packs; everything before them ran on the built-in pack
+  3: (save) => ({
+    ...save,
+    version: 4,
+    promptPack: toPackRef(DEFAULT_PROMPT_PACK),
+  }),
+};
+
+export const createSaveId = (): string =>
+  `save-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Upgrades a raw save to SAVE_FILE_VERSION and checks its shape.
+ * Returns null if it isn't a usable save (or comes from a newer build).
+ * Saves already at v3+ skip the migrations that fill in id, name and phase, so those are checked here too.
+ */
+export const migrateSaveFile = (raw: unknown): SaveFile | null => {
+  if (!isObject(raw)) return null;
+
+  let save: Record<string, unknown> = { ...raw };
+  let version = typeof save.version === 'number' ? save.version : 1;
+  if (version > SAVE_FILE_VERSION) {
+    console.error(`Save file version ${version} is newer than supported (${SAVE_FILE_VERSION})`);
+    return null;
+  }
+  while (version < SAVE_FILE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    save = migrate(save);
+    version += 1;
+  }
+
+  const { id, name, timestamp, messages, gameState, phase, promptPack } = save;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name.trim()) return null;
+  if (typeof timestamp !== 'number' || !isObject(gameState)) return null;
+  if (!Array.isArray(messages) || !messages.every(isMessage)) return null;
+
+  return {
+    version: SAVE_FILE_VERSION,
+    id,
+    name,
+    timestamp,
+    summary: typeof save.summary === 'string' ? save.summary : '',
+    messages,
+    gameState,
+    phase: readPhase(phase),
+    selectedPerk: typeof save.selectedPerk === 'string' ? save.selectedPerk : null,
+    selectedJob: typeof save.selectedJob === 'string' ? save.selectedJob : null,
+    selectedJobId: typeof save.selectedJobId === 'string' ? save.selectedJobId : null,
+    hardcore: save.hardcore === true,
+    memory: isCampaignMemory(save.memory) ? save.memory : null,
+    diceState: typeof save.diceState === 'number' ? save.diceState : undefined,
+    runSeed: typeof save.runSeed === 'string' ? save.runSeed : null,
+    locations: Array.isArray(save.locations) ? save.locations.filter(isLocationVisit) : [],
+    promptPack: isObject(promptPack) && typeof promptPack.id === 'string' && typeof promptPack.version === 'string'
+      ? { id: promptPack.id, version: promptPack.version }
+      : toPackRef(DEFAULT_PROMPT_PACK),
+  };
+};
+
+// Save lists (or old fixed-slot arrays with empty nulls): drops empty and unreadable entries
+export const migrateSaveList = (raw: unknown): SaveFile[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(slot => (slot ? migrateSaveFile(slot) : null))
+    .filter((save): save is SaveFile => !!save);
+};
+
+export const createSlotExport = (save: SaveFile): SaveExport => ({
+  kind: 'slot',
+  version: SAVE_FILE_VERSION,
+  exportedAt: Date.now(),
+  save,
+});
+
+export const createBundleExport = (
+  saves: SaveFile[],
+  legacyPerks: string[],
+  settings: Record<string, unknown> | null
+): SaveExport => ({
+  kind: 'bundle',
+  version: SAVE_FILE_VERSION,
+  exportedAt: Date.now(),
+  saves,
+  legacyPerks,
+  settings,
+});
+
+/**
+ * Parses an imported .json file. Throws with a player-facing message when the file is unusable.
+ */
+export const parseSaveExport = (text: string, t: Translator): SaveExport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('import.invalidJson'));
+  }
+  if (!isObject(raw)) throw new Error(t('import.saveInvalid'));
+
+  if (raw.kind === 'slot') {
+    const save = migrateSaveFile(raw.save);
+    if (!save) throw new Error(t('import.saveCorrupt'));
+    return { kind: 'slot', version: SAVE_FILE_VERSION, exportedAt: Number(raw.exportedAt) || Date.now(), save };
+  }
+
+  if (raw.kind === 'bundle') {
+    if (!Array.isArray(raw.saves)) throw new Error(t('import.saveNoSlots'));
+    const saves = migrateSaveList(raw.saves);
+    const legacyPerks = Array.isArray(raw.legacyPerks)
+      ? raw.legacyPerks.filter((p: unknown): p is string => typeof p === 'string')
+      : [];
+    return {
+      kind: 'bundle',
+      version: SAVE_FILE_VERSION,
+      exportedAt: Number(raw.exportedAt) || Date.now(),
+      saves,
+      legacyPerks,
+      settings: isObject(raw.settings) ? raw.settings : null,
+    };
+  }
+
+  // A bare SaveFile (e.g. copied out of localStorage by hand)
+  const save = migrateSaveFile(raw);
+  if (save) return { kind: 'slot', version: SAVE_FILE_VERSION, exportedAt: Date.now(), save };
+
+  throw new Error(t('import.saveInvalid'));
+};
+
+// Metadata shown in the save browser, derived from the save itself
+export interface SaveSummary {
+  job: string | null;
+  perk: string | null;
+  turns: number;
+  hp: string | null;
+  mental: string | null;
+  excerpt: string;
+}
+
+const EXCERPT_LENGTH = 120;
+
+export const summarizeSave = (save: SaveFile): SaveSummary => {
+  const lastModel = [...save.messages].reverse().find(m => m.role === 'model');
+  const excerpt = lastModel
+    ? lastModel.content.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH)
+    : '';
+  return {
+    job: save.selectedJob,
+    perk: save.selectedPerk,
+    turns: save.messages.filter(m => m.role === 'user').length,
+    hp: save.gameState.hp || null,
+    mental: save.gameState.mental || null,
+    excerpt,
+  };
+};
+
+export const downloadJson = (data: unknown, filename: string): void => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,223 @@
+import { Message, StatusEffect, StatusEffectDefinition, StatusSeverity, StatusUpdate } from "../types";
+import { extractMarkers } from "./parser";
+
+// Known status effects. Tags that match none of these are skills or traits and aren't tracked.
+export const STATUS_EFFECTS: StatusEffectDefinition[] = [
+  {
+    id: 'injured',
+    names: { ko: '부상', en: 'Injured', ja: '負傷' },
+    aliases: ['골절', '상처', 'wounded', 'fracture', '骨折'],
+    severity: 'moderate',
+    duration: 6,
+    mechanics: {
+      ko: '신체에 데미지를 입은 상태입니다. 피지컬 판정에 불리하며 지속되면 감염 위험이 있습니다.',
+      en: 'The body is damaged. Penalizes physical checks and risks infection if left untreated.',
+      ja: '身体にダメージを負った状態です。フィジカル判定に不利で、長引くと感染の危険があります。',
+    },
+  },
+  {
+    id: 'bleeding',
+    names: { ko: '출혈', en: 'Bleeding', ja: '出血' },
+    aliases: ['과다출혈', 'blood loss', '失血'],
+    severity: 'severe',
+    duration: null,
+    mechanics: {
+      ko: '매 턴 HP가 줄어듭니다. 지혈하거나 치료하기 전까지 멈추지 않습니다.',
+      en: 'HP drops every turn. It does not stop until the wound is bound or treated.',
+      ja: '毎ターンHPが減少します。止血か治療をするまで止まりません。',
+    },
+  },
+  {
+    id: 'hungry',
+    names: { ko: '배고픔', en: 'Hungry', ja: '空腹' },
+    aliases: ['굶주림', '허기', 'starving', 'hunger', '飢え'],
+    severity: 'mild',
+    duration: null,
+    mechanics: {
+      ko: '영양 섭취가 필요한 상태입니다. 장기간 지속 시 스탯이 하락합니다.',
+      en: 'In need of food. Stats drop if it lasts too long.',
+      ja: '栄養補給が必要な状態です。長期間続くとステータスが低下します。',
+    },
+  },
+  {
+    id: 'thirsty',
+    names: { ko: '갈증', en: 'Thirsty', ja: '渇き' },
+    aliases: ['탈수', 'dehydrated', '脱水'],
+    severity: 'moderate',
+    duration: null,
+    mechanics: {
+      ko: '판단력과 체력이 빠르게 떨어집니다. 깨끗한 물 없이는 며칠을 버티지 못합니다.',
+      en: 'Judgement and stamina fall fast. You will not last days without clean water.',
+      ja: '判断力と体力が急速に落ちます。きれいな水なしでは数日ももちません。',
+    },
+  },
+  {
+    id: 'irradiated',
+    names: { ko: '방사능', en: 'Irradiated', ja: '放射能' },
+    aliases: ['피폭', 'radiation', '被曝'],
+    severity: 'moderate',
+    duration: null,
+    mechanics: {
+      ko: '피폭 상태입니다. 서서히 최대 체력이 감소하며 돌연변이를 유발할 수 있습니다.',
+      en: 'Radiation exposure. Max HP slowly drops and mutations may follow.',
+      ja: '被曝状態です。最大体力が徐々に減少し、突然変異を引き起こすことがあります。',
+    },
+  },
+  {
+    id: 'infected',
+    names: { ko: '감염', en: 'Infected', ja: '感染' },
+    aliases: ['패혈증', '고열', 'fever', 'sepsis', '発熱'],
+    severity: 'severe',
+    duration: null,
+    mechanics: {
+      ko: '상처나 오염으로 인한 감염입니다. 항생제 없이는 고열과 함께 HP가 계속 떨어집니다.',
+      en: 'Infection from a wound or contamination. Without antibiotics, fever sets in and HP keeps falling.',
+      ja: '傷や汚染による感染です。抗生物質がなければ高熱とともにHPが下がり続けます。',
+    },
+  },
+  {
+    id: 'poisoned',
+    names: { ko: '중독', en: 'Poisoned', ja: '中毒' },
+    aliases: ['독', 'toxin', '毒'],
+    severity: 'moderate',
+    duration: 3,
+    mechanics: {
+      ko: '독이나 오염된 음식에 의한 중독입니다. 구토와 어지럼증으로 모든 판정이 불리해집니다.',
+      en: 'Poison or tainted food. Vomiting and dizziness make every check harder.',
+      ja: '毒や汚染された食べ物による中毒です。嘔吐とめまいであらゆる判定が不利になります。',
+    },
+  },
+  {
+    id: 'exhausted',
+    names: { ko: '탈진', en: 'Exhausted', ja: '疲労' },
+    aliases: ['피로', '수면 부족', 'fatigued', 'tired', '消耗'],
+    severity: 'mild',
+    duration: 4,
+    mechanics: {
+      ko: '잠과 휴식이 부족합니다. 생존 판정과 반응 속도가 떨어지고, 쉬면 회복됩니다.',
+      en: 'Short on sleep and rest. Survival checks and reactions suffer; rest clears it.',
+      ja: '睡眠と休息が不足しています。生存判定と反応速度が落ち、休めば回復します。',
+    },
+  },
+  {
+    id: 'panicked',
+    names: { ko: '공황', en: 'Panicked', ja: 'パニック' },
+    aliases: ['공포', '패닉', 'panic', 'terrified', '恐怖'],
+    severity: 'moderate',
+    duration: 2,
+    mechanics: {
+      ko: '극도의 공포로 침착한 행동이 어렵습니다. 카리스마와 정밀한 행동이 불리해집니다.',
+      en: 'Overwhelming fear makes calm action hard. Charisma and precise actions suffer.',
+      ja: '極度の恐怖で冷静な行動が困難です。カリスマと精密な行動が不利になります。',
+    },
+  },
+];
+
+// A dropped effect with no expected duration is shown this many turns before it's let go
+const STALE_TURNS = 3;
+
+const SEVERITY_PATTERNS: [RegExp, StatusSeverity][] = [
+  [/심각|중증|위독|severe|critical|重度|重症/i, 'severe'],
+  [/중간|보통|moderate|中度|中等/i, 'moderate'],
+  [/경미|가벼|경증|mild|minor|light|軽度|軽症/i, 'mild'],
+];
+const CLEARED_PATTERN = /해제|회복|치료됨|소멸|cleared|cured|healed|gone|解除|回復|治癒/i;
+
+const normalize = (name: string) => name.replace(/[\[\]\s]/g, '').toLowerCase();
+
+/** Catalog entry for a tag or marker name in any supported language, or one of its aliases. */
+export const findStatusEffect = (name: string): StatusEffectDefinition | undefined => {
+  const n = normalize(name);
+  return STATUS_EFFECTS.find(d => [...Object.values(d.names), ...d.aliases].some(alias => normalize(alias) === n));
+};
+
+const statusKey = (name: string) => findStatusEffect(name)?.id ?? normalize(name);
+
+const parseDuration = (text: string | null): number | null => {
+  const match = text?.match(/\d+/);
+  return match ? Math.max(1, parseInt(match[0], 10)) : null;
+};
+
+/** Pulls status markers out of a GM turn, returning the narrative without them and one update per marker. */
+export const extractStatusUpdates = (narrative: string): { text: string; updates: StatusUpdate[] } => {
+  // [상태이상: 이름 | 경미/중간/심각/해제 | 예상 지속 턴]
+  const { text, markers } = extractMarkers('상태이상', narrative, 3);
+  const updates = markers.map(([name, severity, duration]): StatusUpdate => ({
+    name,
+    severity: severity ? SEVERITY_PATTERNS.find(([pattern]) => pattern.test(severity))?.[1] ?? null : null,
+    duration: parseDuration(duration),
+    cleared: !!severity && CLEARED_PATTERN.test(severity),
+  }));
+  return { text, updates };
+};
+
+/** Turns left before the effect should wear off; negative once it's overdue, null if it lasts until treated. */
+export const getRemainingTurns = (effect: StatusEffect, turn: number): number | null =>
+  effect.duration === null ? null : effect.appliedTurn + effect.duration - turn;
+
+/**
+ * Advances the tracked effects by one GM turn.
+ * Markers apply, update or clear effects; catalog effects listed in [태그] are picked up even without a marker.
+ * A tagged effect that vanishes from [태그] without being cleared is kept as dropped until it would
+ * have worn off anyway, so the player can see what the GM stopped mentioning.
+ */
+export const advanceStatusEffects = (previous: StatusEffect[], tags: string[], updates: StatusUpdate[], turn: number): StatusEffect[] => {
+  const effects = new Map(previous.map(e => [e.key, e]));
+  const touched = new Set<string>();
+  const cleared = new Set<string>();
+
+  updates.forEach(update => {
+    const key = statusKey(update.name);
+    touched.add(key);
+    if (update.cleared) {
+      cleared.add(key);
+      effects.delete(key);
+      return;
+    }
+    const prev = effects.get(key);
+    const def = findStatusEffect(update.name);
+    effects.set(key, {
+      key,
+      name: prev?.name ?? update.name,
+      severity: update.severity ?? prev?.severity ?? def?.severity ?? 'moderate',
+      appliedTurn: prev?.appliedTurn ?? turn,
+      duration: update.duration ?? prev?.duration ?? def?.duration ?? null,
+      tagged: prev?.tagged ?? false,
+      droppedTurn: null,
+    });
+  });
+
+  const listed = new Set<string>();
+  tags.forEach(tag => {
+    const def = findStatusEffect(tag);
+    if (!def || cleared.has(def.id)) return;
+    listed.add(def.id);
+    const prev = effects.get(def.id);
+    effects.set(def.id, prev
+      ? { ...prev, tagged: true, droppedTurn: null }
+      : { key: def.id, name: tag.replace(/[\[\]]/g, '').trim(), severity: def.severity, appliedTurn: turn, duration: def.duration, tagged: true, droppedTurn: null });
+  });
+
+  const next: StatusEffect[] = [];
+  effects.forEach(effect => {
+    let e = effect;
+    if (e.tagged && !listed.has(e.key) && !touched.has(e.key)) {
+      e = { ...e, droppedTurn: e.droppedTurn ?? turn };
+    }
+    const remaining = getRemainingTurns(e, turn);
+    const wornOff = e.droppedTurn !== null || !e.tagged
+      ? (remaining !== null ? remaining <= 0 : e.droppedTurn !== null && turn - e.droppedTurn >= STALE_TURNS)
+      : false;
+    if (!wornOff) next.push(e);
+  });
+  return next.sort((a, b) => a.appliedTurn - b.appliedTurn);
+};
+
+/** Status effects after the latest GM turn in `messages`, and after the one before it (for highlighting changes). */
+export const getStatusTimeline = (messages: Message[]): { current: StatusEffect[]; previous: StatusEffect[] } => {
+  const snapshots = messages.filter(m => m.role === 'model').map(m => m.statusEffects ?? []);
+  return {
+    current: snapshots[snapshots.length - 1] ?? [],
+    previous: snapshots[snapshots.length - 2] ?? [],
+  };
+};
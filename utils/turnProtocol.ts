@@ -0,0 +1,157 @@
+import { StructuredTurn, TurnEvent, TurnValidationReport } from "../types";
+import { isObject, isStringArray } from "./guards";
+
+/**
+ * Checks a decoded JSON turn against the StructuredTurn shape.
+ * Reports every missing or malformed field path instead of stopping at the first one.
+ */
+export const validateStructuredTurn = (raw: unknown): TurnValidationReport => {
+  const missing: string[] = [];
+  const malformed: string[] = [];
+
+  const check = (obj: Record<string, unknown>, key: string, path: string, ok: (v: unknown) => boolean) => {
+    if (!(key in obj) || obj[key] === undefined || obj[key] === null) {
+      missing.push(path);
+      return false;
+    }
+    if (!ok(obj[key])) {
+      malformed.push(path);
+      return false;
+    }
+    return true;
+  };
+
+  if (!isObject(raw)) {
+    return { valid: false, missing: [], malformed: ['(root)'] };
+  }
+
+  check(raw, 'narrative', 'narrative', v => typeof v === 'string');
+  check(raw, 'choices', 'choices', isStringArray);
+  check(raw, 'events', 'events', v =>
+    Array.isArray(v) && v.every(e => isObject(e) && typeof e.type === 'string'));
+
+  const hud = raw.hud;
+  if (check(raw, 'hud', 'hud', isObject) && isObject(hud)) {
+    check(hud, 'hp', 'hud.hp', v => typeof v === 'string');
+    check(hud, 'mental', 'hud.mental', v => typeof v === 'string');
+    check(hud, 'tags', 'hud.tags', isStringArray);
+    check(hud, 'equipment', 'hud.equipment', isStringArray);
+    check(hud, 'notes', 'hud.notes', v => typeof v === 'string');
+    const stats = hud.stats;
+    if (check(hud, 'stats', 'hud.stats', isObject) && isObject(stats)) {
+      ['physical', 'survival', 'charisma'].forEach(stat => {
+        check(stats, stat, `hud.stats.${stat}`, v => typeof v === 'number' && Number.isFinite(v));
+      });
+    }
+  }
+
+  return { valid: missing.length === 0 && malformed.length === 0, missing, malformed };
+};
+
+// Strips an optional ```json fence the model sometimes adds despite the mime type
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : text).trim();
+};
+
+/**
+ * Decodes a JSON-mode turn. Returns null when the text is not JSON at all,
+ * so the caller can fall back to the markdown parser.
+ */
+export const decodeStructuredTurn = (text: string): { turn: Partial<StructuredTurn>; report: TurnValidationReport } | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractJson(text));
+  } catch (e) {
+    return null;
+  }
+  return { turn: (isObject(raw) ? raw : {}) as Partial<StructuredTurn>, report: validateStructuredTurn(raw) };
+};
+
+const eventToTag = (event: TurnEvent): string | null => {
+  switch (event.type) {
+    case 'perk_acquired': return event.detail ? `[PERK_ACQUIRED: ${event.detail}]` : null;
+    case 'system_reset': return '[SYSTEM_RESET]';
+    case 'death': return '[사망 엔딩]';
+    case 'ending': return '[엔딩]';
+    case 'npc': return event.detail ? `[NPC: ${event.detail}]` : null;
+    case 'faction': return event.detail ? `[세력: ${event.detail}]` : null;
+    case 'quest': return event.detail ? `[퀘스트: ${event.detail}]` : null;
+    case 'status': return event.detail ? `[상태이상: ${event.detail}]` : null;
+    default: return null;
+  }
+};
+
+/**
+ * Renders a (possibly partial) structured turn into the markdown turn format,
+ * so both protocols share one downstream pipeline (parseGameResponse / parseHudToState).
+ * Valid fields are kept; missing ones are simply omitted.
+ */
+export const structuredTurnToMarkdown = (turn: Partial<StructuredTurn>): string => {
+  const sections: string[] = [];
+
+  if (typeof turn.narrative === 'string' && turn.narrative.trim()) {
+    sections.push(turn.narrative.trim());
+  }
+
+  if (isStringArray(turn.choices) && turn.choices.length > 0) {
+    sections.push(turn.choices.map(c => c.trim()).join('\n'));
+  }
+
+  if (Array.isArray(turn.events)) {
+    const tags = turn.events
+      .filter(e => isObject(e) && typeof e.type === 'string')
+      .map(eventToTag)
+      .filter((t): t is string => !!t);
+    if (tags.length > 0) sections.push(tags.join('\n'));
+  }
+
+  const hud = turn.hud;
+  if (isObject(hud)) {
+    const lines: string[] = [];
+    if (typeof hud.hp === 'string' || typeof hud.mental === 'string') {
+      lines.push(`[상태] HP: ${hud.hp ?? '?'} | 멘탈: ${hud.mental ?? '?'}`);
+    }
+    if (isObject(hud.stats)) {
+      const { physical, survival, charisma } = hud.stats;
+      lines.push(`[스탯] 피지컬(${physical ?? '?'}) | 생존(${survival ?? '?'}) | 카리스마(${charisma ?? '?'})`);
+    }
+    if (isStringArray(hud.tags)) lines.push(`[태그] ${hud.tags.join(', ')}`);
+    if (isStringArray(hud.equipment)) lines.push(`[장비] ${hud.equipment.join(', ')}`);
+    if (typeof hud.notes === 'string') lines.push(`[메모] ${hud.notes}`);
+    if (typeof hud.location === 'string' && hud.location.trim()) lines.push(`[위치] ${hud.location}`);
+    if (lines.length > 0) sections.push('```text\n' + lines.join('\n') + '\n```');
+  }
+
+  return sections.join('\n\n');
+};
+
+export const describeValidationReport = (report: TurnValidationReport): string[] => {
+  const issues: string[] = [];
+  if (report.missing.length > 0) issues.push(`missing: ${report.missing.join(', ')}`);
+  if (report.malformed.length > 0) issues.push(`malformed: ${report.malformed.join(', ')}`);
+  return issues;
+};
+
+/**
+ * Streaming preview for JSON mode: pulls the (possibly unterminated) narrative string
+ * out of a partial JSON document.
+ */
+export const getStreamingStructuredNarrative = (partial: string): string => {
+  const start = partial.match(/"narrative"\s*:\s*"/);
+  if (!start || start.index === undefined) return '';
+  let out = '';
+  for (let i = start.index + start[0].length; i < partial.length; i++) {
+    const ch = partial[i];
+    if (ch === '"') break;
+    if (ch === '\\') {
+      const next = partial[i + 1];
+      if (next === undefined) break;
+      out += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      i++;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+};